@@ -3,14 +3,14 @@
  *
  * This page composes all our components together:
  * 1. PhysicsCanvas: Renders the Matter.js simulation
- * 2. NeubrutalistToggle: UI to spawn shapes
+ * 2. NeubrutalistToolbar: UI to spawn shapes and pick the spawn pattern
  *
  * The data flow:
- * - User clicks toggle button
- * - Toggle calls onSpawn callback
+ * - User clicks the SPAWN button
+ * - Toolbar calls onSpawn callback
  * - Page increments spawnCount state
  * - PhysicsCanvas receives new spawnCount
- * - PhysicsCanvas spawns 30-50 shapes
+ * - PhysicsCanvas starts an emitter (rain, fountain, burst...)
  *
  * This is a simple example of React state management
  * driving physics interactions!
@@ -27,7 +27,9 @@
 
 import { useState } from 'react'
 import { PhysicsCanvas } from '@/components/physics-canvas'
-import { NeubrutalistToggle } from '@/components/neubrutalist-toggle'
+import { NeubrutalistToolbar } from '@/components/neubrutalist-toolbar'
+import { SettingsPanel } from '@/components/settings-panel'
+import { getSeedFromLocation } from '@/lib/random'
 
 export default function Page() {
 	/**
@@ -43,6 +45,12 @@ export default function Page() {
 	 */
 	const [spawnCount, setSpawnCount] = useState(0)
 
+	/**
+	 * Optional seed from the URL (?seed=42) for reproducible bursts.
+	 * Read once on mount - it never changes while the page is open.
+	 */
+	const [seed] = useState(getSeedFromLocation)
+
 	const handleSpawn = () => {
 		setSpawnCount((prev) => prev + 1)
 	}
@@ -53,13 +61,15 @@ export default function Page() {
        * EXPLAINER: Component Composition
        *
        * PhysicsCanvas is the background layer (fullscreen canvas)
-       * NeubrutalistToggle is the UI layer (positioned absolutely)
+       * NeubrutalistToolbar is the UI layer (positioned absolutely)
        *
-       * The toggle appears "on top" of the canvas via z-index.
+       * The toolbar appears "on top" of the canvas via z-index.
        */}
-			<PhysicsCanvas onSpawn={handleSpawn} spawnCount={spawnCount} />
+			<PhysicsCanvas onSpawn={handleSpawn} spawnCount={spawnCount} seed={seed} />
+
+			<NeubrutalistToolbar onSpawn={handleSpawn} />
 
-			<NeubrutalistToggle onSpawn={handleSpawn} />
+			<SettingsPanel />
 
 			{/**
        */}
@@ -86,9 +96,9 @@ export default function Page() {
  * NEXT STEPS:
  * - Run the app: pnpm dev
  * - Open DevTools console
- * - Click "SPAWN SHAPES" button
+ * - Click the "SPAWN" button
  * - Try dragging shapes
- * - Try clicking shapes to bounce them
+ * - Try the tools in the tool palette (flick, explode, freeze...)
  *
  * EXPERIMENTS TO TRY:
  * 1. Add a "Clear All" button
@@ -0,0 +1,47 @@
+/**
+ * EXPLAINER: Composite Spawner
+ *
+ * One button per composite kind (lib/composite-factory.ts). Each click
+ * drops a chain, rope, bridge, soft body or ragdoll somewhere across
+ * the top of the screen.
+ *
+ * Grab any part with the mouse - the rest follows along its links.
+ *
+ * CHALLENGE: Spawn a bridge, then drop a ragdoll on it.
+ */
+
+'use client'
+
+import type Matter from 'matter-js'
+import { COMPOSITE_KINDS } from '@/lib/composite-factory'
+import { randomInRange } from '@/lib/random'
+import { NeubrutalistButton } from '@/components/neubrutalist-button'
+
+interface CompositeSpawnerProps {
+	/** Canvas width - composites spawn somewhere across it */
+	width: number
+	addComposite: (composite: Matter.Composite) => void
+}
+
+/** High enough that ropes have room to hang, low enough to see the pins */
+const SPAWN_Y = 150
+
+/** Keep wide composites (bridges) away from the walls */
+const EDGE_MARGIN = 0.25
+
+export function CompositeSpawner({ width, addComposite }: CompositeSpawnerProps) {
+	const handleSpawn = (factory: (typeof COMPOSITE_KINDS)[number]['factory']) => {
+		const x = randomInRange(Math.random, width * EDGE_MARGIN, width * (1 - EDGE_MARGIN))
+		addComposite(factory(x, SPAWN_Y))
+	}
+
+	return (
+		<div className="fixed bottom-24 left-8 z-10 flex flex-wrap gap-2" role="group" aria-label="Spawn composites">
+			{COMPOSITE_KINDS.map(({ name, label, factory }) => (
+				<NeubrutalistButton key={name} onClick={() => handleSpawn(factory)}>
+					{label.toUpperCase()}
+				</NeubrutalistButton>
+			))}
+		</div>
+	)
+}
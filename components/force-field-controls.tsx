@@ -0,0 +1,107 @@
+/**
+ * EXPLAINER: Force Field Controls
+ *
+ * Place force fields (lib/force-fields.ts) on the canvas:
+ * 1. Pick a kind - the button stays pressed
+ * 2. Click anywhere on the canvas to drop the field there
+ *    (Escape cancels). The active tool doesn't see that click.
+ *
+ * Placed fields are listed underneath, each with × to remove it.
+ * Turn on "Debug view" in the settings to see their reach.
+ *
+ * CHALLENGE: Build a fan - a WIND field at the bottom left of the
+ * screen, then turn its angle upward: add a button to each listed
+ * field that calls the ForceFieldManager returned by useMatter (the
+ * `forceFields` prop here):
+ * forceFields.update(field.id, { angle: -Math.PI / 4 })
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Matter from 'matter-js'
+import { createForceFieldSpec, type ForceFieldKind, type ForceFieldManager } from '@/lib/force-fields'
+import { useCanvasPlacement } from '@/hooks/use-canvas-placement'
+import { NeubrutalistButton } from '@/components/neubrutalist-button'
+
+interface ForceFieldControlsProps {
+	canvasRef: React.RefObject<HTMLCanvasElement | null>
+	forceFields: ForceFieldManager
+}
+
+const FIELD_KINDS: ForceFieldKind[] = ['attractor', 'repulsor', 'vortex', 'wind']
+
+export function ForceFieldControls({ canvasRef, forceFields }: ForceFieldControlsProps) {
+	const [fields, setFields] = useState(() => forceFields.getFields())
+	// The kind waiting to be placed by the next canvas click
+	const [placing, setPlacing] = useState<ForceFieldKind | null>(null)
+
+	useEffect(() => {
+		const handleFieldsChanged = () => setFields(forceFields.getFields())
+
+		Matter.Events.on(forceFields, 'fieldsChanged', handleFieldsChanged)
+		return () => Matter.Events.off(forceFields, 'fieldsChanged', handleFieldsChanged)
+	}, [forceFields])
+
+	const handlePlace = useCallback(
+		({ x, y }: Matter.Vector) => {
+			if (placing) forceFields.add(createForceFieldSpec(placing, x, y))
+			setPlacing(null)
+		},
+		[forceFields, placing]
+	)
+
+	const handleCancel = useCallback(() => setPlacing(null), [])
+
+	// The press that places a field doesn't reach the active tool
+	useCanvasPlacement(canvasRef, placing !== null, handlePlace, handleCancel)
+
+	return (
+		<div className="fixed bottom-36 left-8 z-10 flex flex-col items-start gap-2">
+			<div className="flex flex-wrap gap-2" role="group" aria-label="Place force field">
+				{FIELD_KINDS.map((kind) => (
+					<NeubrutalistButton
+						key={kind}
+						onClick={() => setPlacing(placing === kind ? null : kind)}
+						aria-pressed={placing === kind}
+						accent={placing === kind}
+						className="uppercase"
+					>
+						{kind}
+					</NeubrutalistButton>
+				))}
+			</div>
+
+			{placing && (
+				<p role="status" className="px-3 py-1 bg-white border-[1px] border-black text-xs font-bold">
+					Click the canvas to place a {placing} (Esc cancels)
+				</p>
+			)}
+
+			{fields.length > 0 && (
+				<ul className="flex flex-wrap gap-2 text-xs font-bold" aria-label="Force fields">
+					{fields.map((field) => (
+						<li
+							key={field.id}
+							className="flex items-center gap-1 px-2 py-0.5 bg-white border-[1px] border-black rounded-full"
+						>
+							{field.kind} #{field.id}
+							<button
+								onClick={() => forceFields.remove(field.id)}
+								className="font-black"
+								aria-label={`Remove ${field.kind} #${field.id}`}
+							>
+								×
+							</button>
+						</li>
+					))}
+					<li>
+						<button onClick={() => forceFields.clear()} className="underline">
+							clear
+						</button>
+					</li>
+				</ul>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,165 @@
+/**
+ * EXPLAINER: Gravity Controls
+ *
+ * - UNIFORM / PLANETARY switches the gravity mode (lib/gravity.ts).
+ *   Planetary mode starts with one well in the middle of the screen.
+ * - WELL, ZERO-G and ZONE wait for a click on the canvas, then place
+ *   a gravity well, a round zero-G region or a rectangular zone there
+ *   (Escape cancels). The active tool doesn't see that click.
+ * - The arrows pick which way gravity points inside new zones.
+ *
+ * Placed wells and zones are listed underneath, each with × to remove
+ * it. Turn on "Debug view" in the settings to see them.
+ *
+ * CHALLENGE: Put a ZONE pointing up in the middle of the floor. Can you
+ * make a fountain that shapes keep bobbing in?
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Matter from 'matter-js'
+import { GRAVITY_MODES, type GravityManager, type GravityMode } from '@/lib/gravity'
+import { useCanvasPlacement } from '@/hooks/use-canvas-placement'
+import { NeubrutalistSegmented } from '@/components/neubrutalist-segmented'
+import { NeubrutalistButton } from '@/components/neubrutalist-button'
+
+interface GravityControlsProps {
+	canvasRef: React.RefObject<HTMLCanvasElement | null>
+	gravity: GravityManager
+}
+
+type Placement = 'well' | 'zero-g' | 'zone'
+
+const PLACEMENTS: Placement[] = ['well', 'zero-g', 'zone']
+
+/**
+ * Gravity directions for new zones, as strong as normal gravity
+ */
+const ZONE_DIRECTIONS = [
+	{ label: '↑', name: 'up', gravity: { x: 0, y: -1 } },
+	{ label: '←', name: 'left', gravity: { x: -1, y: 0 } },
+	{ label: '→', name: 'right', gravity: { x: 1, y: 0 } },
+	{ label: '↓', name: 'down', gravity: { x: 0, y: 1 } },
+] as const
+
+const MODE_OPTIONS = GRAVITY_MODES.map((mode) => ({ value: mode, label: mode }))
+
+const DIRECTION_OPTIONS = ZONE_DIRECTIONS.map((direction) => ({
+	value: direction.gravity,
+	label: direction.label,
+	ariaLabel: `Zone gravity ${direction.name}`,
+}))
+
+export function GravityControls({ canvasRef, gravity }: GravityControlsProps) {
+	const [state, setState] = useState(() => gravity.getState())
+	// What the next canvas click places
+	const [placing, setPlacing] = useState<Placement | null>(null)
+	const [zoneGravity, setZoneGravity] = useState<Matter.Vector>(ZONE_DIRECTIONS[0].gravity)
+
+	useEffect(() => {
+		const handleGravityChanged = () => setState(gravity.getState())
+
+		Matter.Events.on(gravity, 'gravityChanged', handleGravityChanged)
+		return () => Matter.Events.off(gravity, 'gravityChanged', handleGravityChanged)
+	}, [gravity])
+
+	const handlePlace = useCallback(
+		({ x, y }: Matter.Vector) => {
+			if (placing === 'well') {
+				gravity.addWell(x, y)
+			} else if (placing === 'zero-g') {
+				gravity.addZone({ kind: 'circle', x, y, radius: 150, gravity: { x: 0, y: 0 } })
+			} else if (placing === 'zone') {
+				gravity.addZone({ kind: 'rectangle', x, y, width: 300, height: 200, gravity: { ...zoneGravity } })
+			}
+
+			setPlacing(null)
+		},
+		[gravity, placing, zoneGravity]
+	)
+
+	const handleCancel = useCallback(() => setPlacing(null), [])
+
+	// The press that places a well or zone doesn't reach the active tool
+	useCanvasPlacement(canvasRef, placing !== null, handlePlace, handleCancel)
+
+	const handleModeChange = (mode: GravityMode) => {
+		// Nothing to orbit yet? Start with a well in the middle
+		const canvas = canvasRef.current
+		if (mode === 'planetary' && state.wells.length === 0 && canvas) {
+			gravity.addWell(canvas.width / 2, canvas.height / 2)
+		}
+
+		gravity.setMode(mode)
+	}
+
+	const items = [
+		...state.wells.map((well) => ({ id: well.id, label: `well #${well.id}` })),
+		...state.zones.map((zone) => ({
+			id: zone.id,
+			label: `${zone.gravity.x === 0 && zone.gravity.y === 0 ? 'zero-g' : 'zone'} #${zone.id}`,
+		})),
+	]
+
+	return (
+		<div className="fixed bottom-64 left-8 z-10 flex flex-col items-start gap-2">
+			<div className="flex flex-wrap items-center gap-2">
+				<NeubrutalistSegmented
+					label="Gravity mode"
+					options={MODE_OPTIONS}
+					value={state.mode}
+					onChange={handleModeChange}
+				/>
+
+				<div className="flex gap-2" role="group" aria-label="Place gravity well or zone">
+					{PLACEMENTS.map((placement) => (
+						<NeubrutalistButton
+							key={placement}
+							onClick={() => setPlacing(placing === placement ? null : placement)}
+							aria-pressed={placing === placement}
+							accent={placing === placement}
+							className="uppercase"
+						>
+							{placement}
+						</NeubrutalistButton>
+					))}
+				</div>
+
+				<NeubrutalistSegmented
+					label="Zone gravity direction"
+					options={DIRECTION_OPTIONS}
+					value={zoneGravity}
+					onChange={setZoneGravity}
+				/>
+			</div>
+
+			{placing && (
+				<p role="status" className="px-3 py-1 bg-white border-[1px] border-black text-xs font-bold">
+					Click the canvas to place a {placing} (Esc cancels)
+				</p>
+			)}
+
+			{items.length > 0 && (
+				<ul className="flex flex-wrap gap-2 text-xs font-bold" aria-label="Gravity wells and zones">
+					{items.map((item) => (
+						<li
+							key={item.id}
+							className="flex items-center gap-1 px-2 py-0.5 bg-white border-[1px] border-black rounded-full"
+						>
+							{item.label}
+							<button onClick={() => gravity.remove(item.id)} className="font-black" aria-label={`Remove ${item.label}`}>
+								×
+							</button>
+						</li>
+					))}
+					<li>
+						<button onClick={() => gravity.clear()} className="underline">
+							clear
+						</button>
+					</li>
+				</ul>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,80 @@
+/**
+ * EXPLAINER: Headline Drop
+ *
+ * Type a word, press DROP, and every letter falls onto the page as its
+ * own physics body (lib/text-bodies.ts).
+ *
+ * The font is downloaded the first time you drop something - after
+ * that it's cached, so the next headline falls right away.
+ *
+ * CHALLENGE: Drop "BOOM" on top of a pile of shapes. Which letters
+ * tumble, and which ones land flat?
+ */
+
+'use client'
+
+import { useState } from 'react'
+import type Matter from 'matter-js'
+import { createTextBodies, loadFont } from '@/lib/text-bodies'
+import { NEUBRUTALIST_BUTTON_CLASS } from '@/components/neubrutalist-button'
+
+interface HeadlineDropProps {
+	/** Canvas width - the headline is centered and shrunk to fit */
+	width: number
+	addBody: (body: Matter.Body) => void
+}
+
+/** Start just above the screen, like a spawn burst */
+const DROP_Y = -60
+
+export function HeadlineDrop({ width, addBody }: HeadlineDropProps) {
+	const [text, setText] = useState('')
+	const [isLoading, setIsLoading] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault()
+		if (text.trim() === '') return
+
+		setIsLoading(true)
+		try {
+			const font = await loadFont()
+			createTextBodies(font, text, width / 2, DROP_Y, { maxWidth: width * 0.9 }).forEach(addBody)
+			setText('')
+			setError(null)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Could not drop headline')
+		} finally {
+			setIsLoading(false)
+		}
+	}
+
+	return (
+		<div className="fixed top-28 left-1/2 -translate-x-1/2 z-10 flex flex-col items-center gap-2">
+			<form onSubmit={handleSubmit} className="flex items-center gap-2">
+				<input
+					type="text"
+					value={text}
+					onChange={(event) => setText(event.target.value)}
+					placeholder="Type a headline"
+					maxLength={40}
+					className="w-48 px-3 py-1 bg-white border-[1px] border-black rounded-full text-sm font-bold"
+					aria-label="Headline text"
+				/>
+				<button
+					type="submit"
+					disabled={isLoading || text.trim() === ''}
+					className={`${NEUBRUTALIST_BUTTON_CLASS} px-4 py-1 bg-white font-bold text-sm`}
+				>
+					DROP
+				</button>
+			</form>
+
+			{error && (
+				<p role="alert" className="px-3 py-1 bg-[#FF0080] border-[1px] border-black text-xs font-bold">
+					{error}
+				</p>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,79 @@
+/**
+ * EXPLAINER: Image Import Controls
+ *
+ * IMPORT IMAGE turns a picture into a spawnable shape (lib/textures.ts):
+ * - a box with the image's aspect ratio (product shots)
+ * - or, with "round" ticked, a circle (avatars)
+ *
+ * The image is stored as a data URL, so saved scenes still show it
+ * after a reload.
+ */
+
+'use client'
+
+import { useRef, useState } from 'react'
+import { registerShape } from '@/lib/shape-registry'
+import { createImageFactory, loadTextureImage } from '@/lib/textures'
+import { NeubrutalistButton } from '@/components/neubrutalist-button'
+
+function readAsDataUrl(file: File): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader()
+		reader.onload = () => resolve(reader.result as string)
+		reader.onerror = () => reject(reader.error ?? new Error('Could not read file'))
+		reader.readAsDataURL(file)
+	})
+}
+
+export function ImageImport() {
+	const fileInputRef = useRef<HTMLInputElement>(null)
+	const [isRound, setIsRound] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0]
+		// Reset so picking the same file twice still fires onChange
+		event.target.value = ''
+		if (!file) return
+
+		try {
+			const src = await readAsDataUrl(file)
+			// Wait for it, so boxes get the right aspect ratio from the start
+			await loadTextureImage(src)
+
+			const name = file.name.replace(/\.[^.]+$/, '')
+			const factory = createImageFactory(src, { shape: isRound ? 'circle' : 'rectangle' })
+			registerShape(`image:${name}`, factory, { label: name, removable: true })
+			setError(null)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Could not import image')
+		}
+	}
+
+	return (
+		<div className="flex flex-col gap-2">
+			<div className="flex items-center gap-2">
+				<NeubrutalistButton size="sm" onClick={() => fileInputRef.current?.click()}>
+					IMPORT IMAGE
+				</NeubrutalistButton>
+				<label className="flex items-center gap-1 text-xs font-bold">
+					<input
+						type="checkbox"
+						checked={isRound}
+						onChange={(event) => setIsRound(event.target.checked)}
+						className="accent-[#ec571c]"
+					/>
+					round
+				</label>
+			</div>
+
+			<input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+
+			{error && (
+				<p role="alert" className="px-3 py-1 bg-[#FF0080] border-[1px] border-black text-xs font-bold">
+					{error}
+				</p>
+			)}
+		</div>
+	)
+}
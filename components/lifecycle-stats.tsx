@@ -0,0 +1,49 @@
+/**
+ * EXPLAINER: Lifecycle Counters
+ *
+ * Shows how many bodies each lifecycle policy has removed so far.
+ * The manager fires a 'bodiesRemoved' event (Matter.Events) after
+ * every removal - we listen and copy its totals into React state.
+ *
+ * CHALLENGE: Turn on "Sleep timeout" in the settings panel and watch
+ * the "slept out" counter climb once the pile settles.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import Matter from 'matter-js'
+import type { BodyLifecycleManager } from '@/lib/body-lifecycle'
+
+interface LifecycleStatsProps {
+	lifecycle: BodyLifecycleManager
+}
+
+/**
+ * Policy names from lib/body-lifecycle.ts, in display order
+ */
+const POLICY_NAMES = ['culled', 'evicted', 'expired', 'slept out'] as const
+
+export function LifecycleStats({ lifecycle }: LifecycleStatsProps) {
+	const [totals, setTotals] = useState<Record<string, number>>(() => lifecycle.getTotals())
+
+	useEffect(() => {
+		const handleBodiesRemoved = () => setTotals(lifecycle.getTotals())
+
+		Matter.Events.on(lifecycle, 'bodiesRemoved', handleBodiesRemoved)
+		return () => Matter.Events.off(lifecycle, 'bodiesRemoved', handleBodiesRemoved)
+	}, [lifecycle])
+
+	return (
+		<ul
+			className="fixed bottom-8 left-1/2 -translate-x-1/2 z-10 flex gap-3 px-4 py-2 bg-white border-[1px] border-black rounded-full shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] font-mono text-xs"
+			aria-label="Removed bodies"
+		>
+			{POLICY_NAMES.map((name) => (
+				<li key={name}>
+					<span className="font-bold uppercase">{name}</span> {totals[name] ?? 0}
+				</li>
+			))}
+		</ul>
+	)
+}
@@ -0,0 +1,56 @@
+/**
+ * EXPLAINER: Button
+ *
+ * The push button of the control family: a pill with a hard shadow
+ * that presses into the page when clicked (the shadow goes away and the
+ * pill moves to where the shadow was).
+ *
+ * - size: sm for tight rows, md for most controls, lg for the main ones
+ * - accent: the orange fill, for a button that is switched on (REC, a
+ *   picked placement...) or for the one main action of a group. Pair it
+ *   with aria-pressed when the button toggles something.
+ *
+ * Every other prop (onClick, disabled, aria-*) goes to the <button>.
+ * Buttons with a shape of their own (the stepper's round − / +) use
+ * NEUBRUTALIST_BUTTON_CLASS and add their own size.
+ *
+ * CHALLENGE: Add a `danger` variant for buttons that remove things.
+ */
+
+'use client'
+
+/**
+ * Border, hard shadow and the press effect - everything but size and color
+ */
+export const NEUBRUTALIST_BUTTON_CLASS =
+	'border-[1px] border-black rounded-full shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:translate-x-[2px] active:translate-y-[2px] active:shadow-none transition-all duration-100 disabled:opacity-40'
+
+const SIZE_CLASS = {
+	sm: 'px-2 py-0.5 text-xs',
+	md: 'px-3 py-1 text-xs',
+	lg: 'px-4 py-2 text-sm',
+} as const
+
+interface NeubrutalistButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+	size?: keyof typeof SIZE_CLASS
+	/** Orange instead of white */
+	accent?: boolean
+}
+
+export function NeubrutalistButton({
+	size = 'md',
+	accent = false,
+	type = 'button',
+	className = '',
+	...props
+}: NeubrutalistButtonProps) {
+	return (
+		<button
+			type={type}
+			className={`${NEUBRUTALIST_BUTTON_CLASS} ${SIZE_CLASS[size]} font-bold ${
+				accent ? 'bg-[#ec571c] text-white' : 'bg-white'
+			} ${className}`}
+			{...props}
+		/>
+	)
+}
@@ -0,0 +1,116 @@
+/**
+ * EXPLAINER: Segmented Picker
+ *
+ * A row (or column) of pills where exactly one is picked - the spawn
+ * pattern, the active tool, a material preset...
+ *
+ * For screen readers and keyboards it behaves like a group of radio
+ * buttons (https://www.w3.org/WAI/ARIA/apg/patterns/radio/):
+ * - role="radiogroup" with a label, each pill is role="radio"
+ * - Tab lands on the picked pill only (one tab stop for the group)
+ * - Arrow keys pick the next / previous pill, Home / End the first / last
+ *
+ * CHALLENGE: Add an `icon` to the options and show it before the label.
+ */
+
+'use client'
+
+import { useRef } from 'react'
+
+export interface SegmentedOption<T> {
+	value: T
+	label: string
+	/** Shown as a tooltip */
+	description?: string
+	/** Read by screen readers instead of the label (for symbols like ↑) */
+	ariaLabel?: string
+}
+
+interface NeubrutalistSegmentedProps<T> {
+	/** Name of the group for screen readers */
+	label: string
+	options: readonly SegmentedOption<T>[]
+	value: T
+	onChange: (value: T) => void
+	orientation?: 'horizontal' | 'vertical'
+}
+
+export function NeubrutalistSegmented<T>({
+	label,
+	options,
+	value,
+	onChange,
+	orientation = 'horizontal',
+}: NeubrutalistSegmentedProps<T>) {
+	const buttonsRef = useRef<(HTMLButtonElement | null)[]>([])
+	const selectedIndex = options.findIndex((option) => option.value === value)
+
+	const select = (index: number) => {
+		onChange(options[index].value)
+		buttonsRef.current[index]?.focus()
+	}
+
+	const handleKeyDown = (event: React.KeyboardEvent) => {
+		const last = options.length - 1
+		// Nothing picked yet: arrows start from the first pill
+		const current = Math.max(selectedIndex, 0)
+
+		switch (event.key) {
+			case 'ArrowRight':
+			case 'ArrowDown':
+				select(current === last ? 0 : current + 1)
+				break
+			case 'ArrowLeft':
+			case 'ArrowUp':
+				select(current === 0 ? last : current - 1)
+				break
+			case 'Home':
+				select(0)
+				break
+			case 'End':
+				select(last)
+				break
+			default:
+				return
+		}
+
+		event.preventDefault()
+	}
+
+	return (
+		<div
+			role="radiogroup"
+			aria-label={label}
+			onKeyDown={handleKeyDown}
+			className={`flex gap-1 p-1 bg-white border-[1px] border-black rounded-2xl shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] ${
+				orientation === 'vertical' ? 'flex-col' : 'flex-wrap'
+			}`}
+		>
+			{options.map((option, index) => {
+				const isSelected = index === selectedIndex
+
+				return (
+					<button
+						key={option.label}
+						ref={(button) => {
+							buttonsRef.current[index] = button
+						}}
+						type="button"
+						role="radio"
+						aria-checked={isSelected}
+						aria-label={option.ariaLabel}
+						// One tab stop: the picked pill (or the first, if none is)
+						tabIndex={isSelected || (selectedIndex === -1 && index === 0) ? 0 : -1}
+						title={option.description}
+						onClick={() => onChange(option.value)}
+						className={`px-3 py-1 border-[1px] rounded-full font-bold text-xs uppercase transition-all duration-100 ${
+							isSelected ? 'bg-[#ec571c] text-white border-black' : 'bg-white border-transparent hover:border-black'
+						}`}
+					>
+						{option.label}
+					</button>
+				)
+			})}
+		</div>
+	)
+}
@@ -0,0 +1,73 @@
+/**
+ * EXPLAINER: Slider
+ *
+ * A labelled number on a track, for values you sweep through (gravity,
+ * time scale, bounciness...).
+ *
+ * Under the neubrutalist paint it is a native <input type="range">:
+ * the browser already gives it role="slider", arrow keys, Page Up /
+ * Down and aria-valuenow. We only add:
+ * - a <label> tied to it, so it has a name
+ * - aria-valuetext when the number needs a unit ("0.5x", "30 s")
+ * - the current value next to the track (an <output>)
+ *
+ * CHALLENGE: Show tick marks for the steps with a <datalist>.
+ */
+
+'use client'
+
+import { useId } from 'react'
+
+interface NeubrutalistSliderProps {
+	label: string
+	value: number
+	min: number
+	max: number
+	step: number
+	onChange: (value: number) => void
+	/** How the value is shown and announced (default: the plain number) */
+	format?: (value: number) => string
+	disabled?: boolean
+}
+
+// The native track and thumb, redrawn with borders and a hard shadow
+const rangeClassName =
+	'w-28 h-2 appearance-none bg-white border-[1px] border-black rounded-full cursor-pointer disabled:opacity-40 ' +
+	'[&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-[#ec571c] [&::-webkit-slider-thumb]:border-[1px] [&::-webkit-slider-thumb]:border-black [&::-webkit-slider-thumb]:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] ' +
+	'[&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-[#ec571c] [&::-moz-range-thumb]:border-[1px] [&::-moz-range-thumb]:border-black [&::-moz-range-thumb]:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]'
+
+export function NeubrutalistSlider({
+	label,
+	value,
+	min,
+	max,
+	step,
+	onChange,
+	format,
+	disabled = false,
+}: NeubrutalistSliderProps) {
+	const id = useId()
+
+	return (
+		<div className="flex items-center justify-between gap-3 text-xs font-bold">
+			<label htmlFor={id} className="w-24 shrink-0">
+				{label}
+			</label>
+			<input
+				id={id}
+				type="range"
+				min={min}
+				max={max}
+				step={step}
+				value={value}
+				disabled={disabled}
+				aria-valuetext={format?.(value)}
+				onChange={(event) => onChange(Number(event.target.value))}
+				className={rangeClassName}
+			/>
+			<output htmlFor={id} className="w-12 text-right font-mono tabular-nums">
+				{format ? format(value) : value}
+			</output>
+		</div>
+	)
+}
@@ -0,0 +1,120 @@
+/**
+ * EXPLAINER: Stepper
+ *
+ * A number with − and + buttons, for small counts where every step
+ * matters (solver iterations, how many shapes...).
+ *
+ * For screen readers it is a spin button
+ * (https://www.w3.org/WAI/ARIA/apg/patterns/spinbutton/):
+ * - the number is role="spinbutton" with aria-valuenow / min / max
+ * - it is the only tab stop: arrow keys step, Page Up / Down take ten
+ *   steps, Home / End jump to the limits
+ * - the − / + buttons are for mouse and touch, so they stay out of
+ *   the tab order
+ *
+ * CHALLENGE: Keep stepping while − or + is held down.
+ */
+
+'use client'
+
+import { useId } from 'react'
+import { NEUBRUTALIST_BUTTON_CLASS } from '@/components/neubrutalist-button'
+
+interface NeubrutalistStepperProps {
+	label: string
+	value: number
+	min: number
+	max: number
+	step?: number
+	onChange: (value: number) => void
+	/** How the value is shown and announced (default: the plain number) */
+	format?: (value: number) => string
+}
+
+/**
+ * Decimals in the step, so 0.1 + 0.2 shows as 0.3 (not 0.30000000000000004)
+ */
+function getDecimals(step: number): number {
+	return step.toString().split('.')[1]?.length ?? 0
+}
+
+export function NeubrutalistStepper({ label, value, min, max, step = 1, onChange, format }: NeubrutalistStepperProps) {
+	const labelId = useId()
+
+	const setValue = (next: number) => {
+		const clamped = Math.min(max, Math.max(min, Number(next.toFixed(getDecimals(step)))))
+		if (clamped !== value) onChange(clamped)
+	}
+
+	const handleKeyDown = (event: React.KeyboardEvent) => {
+		switch (event.key) {
+			case 'ArrowUp':
+			case 'ArrowRight':
+				setValue(value + step)
+				break
+			case 'ArrowDown':
+			case 'ArrowLeft':
+				setValue(value - step)
+				break
+			case 'PageUp':
+				setValue(value + step * 10)
+				break
+			case 'PageDown':
+				setValue(value - step * 10)
+				break
+			case 'Home':
+				setValue(min)
+				break
+			case 'End':
+				setValue(max)
+				break
+			default:
+				return
+		}
+
+		event.preventDefault()
+	}
+
+	return (
+		<div className="flex items-center justify-between gap-3 text-xs font-bold">
+			<span id={labelId} className="w-24 shrink-0">
+				{label}
+			</span>
+			<div className="flex items-center gap-2">
+				<button
+					type="button"
+					tabIndex={-1}
+					aria-hidden
+					disabled={value <= min}
+					onClick={() => setValue(value - step)}
+					className={`${NEUBRUTALIST_BUTTON_CLASS} w-6 h-6 bg-white font-black text-xs leading-none`}
+				>
+					−
+				</button>
+				<span
+					role="spinbutton"
+					tabIndex={0}
+					aria-labelledby={labelId}
+					aria-valuenow={value}
+					aria-valuemin={min}
+					aria-valuemax={max}
+					aria-valuetext={format?.(value)}
+					onKeyDown={handleKeyDown}
+					className="min-w-10 px-2 py-0.5 bg-white border-[1px] border-black rounded-full text-center font-mono tabular-nums"
+				>
+					{format ? format(value) : value}
+				</span>
+				<button
+					type="button"
+					tabIndex={-1}
+					aria-hidden
+					disabled={value >= max}
+					onClick={() => setValue(value + step)}
+					className={`${NEUBRUTALIST_BUTTON_CLASS} w-6 h-6 bg-white font-black text-xs leading-none`}
+				>
+					+
+				</button>
+			</div>
+		</div>
+	)
+}
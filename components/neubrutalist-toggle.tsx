@@ -10,9 +10,19 @@
  *
  * This toggle switch embodies all these principles!
  *
+ * It is a real on / off switch: it shows a value it is given
+ * (`checked`) and reports clicks with onCheckedChange. Screen readers
+ * hear it as a switch (role="switch" + aria-checked) named by its label.
+ *
+ * The rest of the control family uses the same look:
+ * - NeubrutalistSegmented: pick one of a few modes
+ * - NeubrutalistSlider: a number on a track
+ * - NeubrutalistStepper: a number with − / + buttons
+ * - NeubrutalistButton: a push button (with an orange "on" state)
+ *
  * Visual characteristics:
- * - Border: 4px solid black
- * - Shadow: 6px offset, no blur
+ * - Border: 1px solid black
+ * - Shadow: 2px offset, no blur
  * - Colors: Bright accent colors that POP
  * - State changes: Smooth but fast transitions
  *
@@ -25,78 +35,62 @@
 
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
-
 interface NeubrutalistToggleProps {
-	onSpawn: () => void
+	/** Visible name of the switch (also what screen readers announce) */
+	label: string
+	checked: boolean
+	onCheckedChange: (checked: boolean) => void
+	/** Keep the label for screen readers only */
+	hideLabel?: boolean
+	disabled?: boolean
 }
 
-export function NeubrutalistToggle({ onSpawn }: NeubrutalistToggleProps) {
-	const [isActive, setIsActive] = useState(false)
-	const timeoutRef = useRef<NodeJS.Timeout | null>(null)
-
-	const handleClick = () => {
-		// If already active, clicking again will restart the 3-second timer
-		if (timeoutRef.current) {
-			clearTimeout(timeoutRef.current)
-		}
-
-		setIsActive(true)
-		onSpawn()
-
-		// Auto-reset after 3 seconds
-		timeoutRef.current = setTimeout(() => {
-			setIsActive(false)
-			timeoutRef.current = null
-		}, 300)
-	}
-
-	// Cleanup on unmount
-	useEffect(() => {
-		return () => {
-			if (timeoutRef.current) {
-				clearTimeout(timeoutRef.current)
-			}
-		}
-	}, [])
-
+export function NeubrutalistToggle({
+	label,
+	checked,
+	onCheckedChange,
+	hideLabel = false,
+	disabled = false,
+}: NeubrutalistToggleProps) {
 	return (
-		<div className="fixed top-8 left-1/2 -translate-x-1/2 z-10 flex flex-col items-center gap-3">
-			{/* Label */}
-
+		<button
+			type="button"
+			role="switch"
+			aria-checked={checked}
+			disabled={disabled}
+			onClick={() => onCheckedChange(!checked)}
+			className="group flex items-center justify-between gap-3 text-xs font-bold disabled:opacity-40"
+		>
+			<span className={hideLabel ? 'sr-only' : undefined}>{label}</span>
 
-			{/* Toggle Switch */}
-			<button
-				onClick={handleClick}
+			{/* Track */}
+			<span
+				aria-hidden
 				className={`
-          relative
-          w-28 h-15
+          relative shrink-0
+          w-10 h-6
           border-[1px] border-black
           rounded-full
-          transition-all duration-200
-         bg-white
-          ${isActive
-						? 'translate-x-[6px] translate-y-[1px] shadow-none'
-						: 'shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]'
-					}
+          shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]
+          group-active:translate-x-[2px] group-active:translate-y-[2px] group-active:shadow-none
+          transition-all duration-100
+          ${checked ? 'bg-[#ec571c]' : 'bg-white'}
         `}
-				aria-label="Toggle spawn mode"
-				aria-pressed={isActive}
 			>
 				{/* Circle (thumb) */}
-				<div
+				<span
 					className={`
-            absolute top-[5px]
-            w-12 h-12
-            bg-[#ec571c]
+            absolute top-[3px]
+            w-4 h-4
+            bg-white
             border-[1px] border-black
             rounded-full
-            transition-all duration-300 ease-out
-            ${isActive ? 'left-[calc(100%-3.25rem)]' : 'left-1'}
+            transition-all duration-200 ease-out
+            ${checked ? 'left-[calc(100%-1.25rem)]' : 'left-[3px]'}
           `}
 				/>
-			</button>
-		</div>
+			</span>
+		</button>
 	)
 }
 
@@ -104,7 +98,7 @@ export function NeubrutalistToggle({ onSpawn }: NeubrutalistToggleProps) {
  * DESIGN NOTES: Neubrutalist Button Mechanics
  *
  * The "pressed" effect is achieved by:
- * 1. Normal state: shadow-[8px_8px_0px_0px_rgba(0,0,0,1)]
+ * 1. Normal state: shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]
  * 2. Active state: translate by shadow amount + remove shadow
  * 3. Result: Looks like button physically pressed into background!
  *
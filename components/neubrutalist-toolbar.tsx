@@ -0,0 +1,63 @@
+/**
+ * EXPLAINER: The Spawn Toolbar
+ *
+ * The main controls, built from the neubrutalist control family:
+ * - SPAWN: an action button - each press starts one emitter
+ * - Spawn pattern: a segmented picker (rain, fountain, burst...)
+ * - Debug: a true on / off switch for the debug view
+ *
+ * The picker and the switch write to the settings store, so they stay
+ * in sync with the settings panel (change one, the other follows).
+ *
+ * role="group" names them for screen readers; every control keeps its
+ * own role (button, radiogroup, switch) and its own tab stop. (Not
+ * role="toolbar": that one promises a single tab stop with arrow keys
+ * between the controls - and the picker already uses the arrows.)
+ *
+ * CHALLENGE: Add a NeubrutalistStepper for how many shapes the rain
+ * drops (hint: createEmitter accepts { count } overrides).
+ */
+
+'use client'
+
+import { useSettings } from '@/hooks/use-settings'
+import { updateSettings } from '@/lib/settings-store'
+import { EMITTER_KINDS } from '@/lib/emitters'
+import { NeubrutalistSegmented } from '@/components/neubrutalist-segmented'
+import { NeubrutalistToggle } from '@/components/neubrutalist-toggle'
+import { NeubrutalistButton } from '@/components/neubrutalist-button'
+
+interface NeubrutalistToolbarProps {
+	onSpawn: () => void
+}
+
+const SPAWN_PATTERN_OPTIONS = EMITTER_KINDS.map((kind) => ({ value: kind, label: kind }))
+
+export function NeubrutalistToolbar({ onSpawn }: NeubrutalistToolbarProps) {
+	const { emitter, showDebug } = useSettings()
+
+	return (
+		<div
+			role="group"
+			aria-label="Spawn"
+			className="fixed top-8 left-1/2 -translate-x-1/2 z-10 flex flex-wrap items-center justify-center gap-3"
+		>
+			<NeubrutalistButton size="lg" accent onClick={onSpawn} className="uppercase">
+				Spawn
+			</NeubrutalistButton>
+
+			<NeubrutalistSegmented
+				label="Spawn pattern"
+				options={SPAWN_PATTERN_OPTIONS}
+				value={emitter}
+				onChange={(kind) => updateSettings({ emitter: kind })}
+			/>
+
+			<NeubrutalistToggle
+				label="Debug view"
+				checked={showDebug}
+				onCheckedChange={(checked) => updateSettings({ showDebug: checked })}
+			/>
+		</div>
+	)
+}
@@ -0,0 +1,105 @@
+/**
+ * EXPLAINER: Obstacle Controls
+ *
+ * Shown while the BUILD tool is active (lib/tools.ts):
+ * - LINE / RAMP / PLATFORM picks what a drag on the canvas draws
+ *   (a click always places a peg)
+ * - the selected obstacle can be deleted with the button, or with
+ *   Delete / Backspace. Escape drops the selection.
+ * - clear removes every obstacle
+ *
+ * Obstacles themselves live in the ObstacleManager (lib/obstacles.ts);
+ * this component only listens to its 'obstaclesChanged' event.
+ *
+ * CHALLENGE: Build a marble run - ramps zig-zagging down the screen,
+ * each one ending above the next - then pick the "stream" spawn
+ * pattern and pour shapes in at the top.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import Matter from 'matter-js'
+import { useSettings } from '@/hooks/use-settings'
+import { updateSettings } from '@/lib/settings-store'
+import { isTypingTarget } from '@/lib/keyboard'
+import { DRAWN_OBSTACLE_KINDS, getObstacleKind, type ObstacleManager } from '@/lib/obstacles'
+import { NeubrutalistSegmented } from '@/components/neubrutalist-segmented'
+import { NeubrutalistButton } from '@/components/neubrutalist-button'
+
+interface ObstacleControlsProps {
+	obstacles: ObstacleManager
+}
+
+const OBSTACLE_OPTIONS = DRAWN_OBSTACLE_KINDS.map((kind) => ({ value: kind, label: kind }))
+
+export function ObstacleControls({ obstacles }: ObstacleControlsProps) {
+	const { tool, obstacleKind } = useSettings()
+	const [state, setState] = useState(() => ({
+		count: obstacles.getObstacles().length,
+		selected: obstacles.getSelected(),
+	}))
+	const isBuilding = tool === 'build'
+
+	useEffect(() => {
+		const handleObstaclesChanged = () => {
+			setState({ count: obstacles.getObstacles().length, selected: obstacles.getSelected() })
+		}
+
+		Matter.Events.on(obstacles, 'obstaclesChanged', handleObstaclesChanged)
+		return () => Matter.Events.off(obstacles, 'obstaclesChanged', handleObstaclesChanged)
+	}, [obstacles])
+
+	// Leaving the build tool drops the selection (it is only drawn while building)
+	useEffect(() => {
+		if (!isBuilding) obstacles.select(null)
+	}, [obstacles, isBuilding])
+
+	useEffect(() => {
+		if (!isBuilding) return
+
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (isTypingTarget(event.target)) return
+
+			if (event.key === 'Delete' || event.key === 'Backspace') {
+				if (obstacles.removeSelected()) event.preventDefault()
+			} else if (event.key === 'Escape') {
+				obstacles.select(null)
+			}
+		}
+
+		window.addEventListener('keydown', handleKeyDown)
+		return () => window.removeEventListener('keydown', handleKeyDown)
+	}, [obstacles, isBuilding])
+
+	if (!isBuilding) return null
+
+	const selectedKind = state.selected && getObstacleKind(state.selected)
+
+	return (
+		<div className="fixed bottom-36 right-8 z-10 flex flex-col items-end gap-2">
+			<NeubrutalistSegmented
+				label="Obstacle to draw"
+				options={OBSTACLE_OPTIONS}
+				value={obstacleKind}
+				onChange={(kind) => updateSettings({ obstacleKind: kind })}
+			/>
+
+			<div className="flex items-center gap-2">
+				<p role="status" className="px-3 py-1 bg-white border-[1px] border-black text-xs font-bold">
+					{selectedKind ? `${selectedKind} selected - drag to move` : `${state.count} obstacles`}
+				</p>
+				<NeubrutalistButton
+					onClick={() => obstacles.removeSelected()}
+					disabled={!state.selected}
+					className="uppercase"
+				>
+					Delete
+				</NeubrutalistButton>
+				<NeubrutalistButton onClick={() => obstacles.clear()} disabled={state.count === 0} accent className="uppercase">
+					Clear
+				</NeubrutalistButton>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,170 @@
+/**
+ * EXPLAINER: Performance HUD
+ *
+ * Live numbers from PerfMonitor (lib/perf-monitor.ts) plus the
+ * lifecycle removal totals, with graphs of the last 5 seconds.
+ *
+ * The dashed line on each graph is the 60 FPS budget:
+ * - FPS graph: 60 frames per second
+ * - Step graph: 16.7 ms - a step slower than that can't keep up!
+ *
+ * The HUD re-renders 4 times per second, not every frame - React
+ * state updates at 60 FPS would cost more than what we're measuring.
+ *
+ * CHALLENGE 5B: Compare FPS with 50 shapes vs 200 shapes,
+ * and with sleeping on vs off.
+ */
+
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Matter from 'matter-js'
+import type { PerfMonitor, PerfStats } from '@/lib/perf-monitor'
+import type { BodyLifecycleManager } from '@/lib/body-lifecycle'
+
+interface PerfHudProps {
+	perf: PerfMonitor
+	lifecycle: BodyLifecycleManager
+}
+
+const REFRESH_INTERVAL = 250
+const FRAME_BUDGET_MS = 1000 / 60
+
+interface HudSnapshot {
+	stats: PerfStats
+	fpsHistory: number[]
+	stepHistory: number[]
+	activeHistory: number[]
+	culled: number
+	removed: number
+}
+
+function takeSnapshot(perf: PerfMonitor, lifecycle: BodyLifecycleManager): HudSnapshot {
+	const totals = lifecycle.getTotals()
+
+	return {
+		stats: perf.getStats(),
+		fpsHistory: perf.fps.values(),
+		stepHistory: perf.stepMs.values(),
+		activeHistory: perf.activeBodies.values(),
+		culled: totals.culled ?? 0,
+		removed: Object.values(totals).reduce((sum, count) => sum + count, 0),
+	}
+}
+
+interface GraphProps {
+	values: number[]
+	/** Top of the graph (grows if a value is bigger) */
+	max: number
+	/** Dashed reference line, e.g. the frame budget */
+	reference?: number
+	color: string
+	label: string
+}
+
+/**
+ * Tiny line graph drawn on its own canvas
+ */
+function Graph({ values, max, reference, color, label }: GraphProps) {
+	const canvasRef = useRef<HTMLCanvasElement>(null)
+
+	useEffect(() => {
+		const canvas = canvasRef.current
+		const ctx = canvas?.getContext('2d')
+		if (!canvas || !ctx) return
+
+		const { width, height } = canvas
+		const top = Math.max(max, ...values)
+		const toY = (value: number) => height - (value / top) * (height - 2) - 1
+
+		ctx.clearRect(0, 0, width, height)
+
+		if (reference !== undefined) {
+			ctx.setLineDash([3, 3])
+			ctx.strokeStyle = '#999999'
+			ctx.beginPath()
+			ctx.moveTo(0, toY(reference))
+			ctx.lineTo(width, toY(reference))
+			ctx.stroke()
+			ctx.setLineDash([])
+		}
+
+		if (values.length < 2) return
+
+		ctx.strokeStyle = color
+		ctx.lineWidth = 1.5
+		ctx.beginPath()
+		values.forEach((value, index) => {
+			const x = (index / (values.length - 1)) * width
+			if (index === 0) ctx.moveTo(x, toY(value))
+			else ctx.lineTo(x, toY(value))
+		})
+		ctx.stroke()
+	}, [values, max, reference, color])
+
+	return (
+		<canvas
+			ref={canvasRef}
+			width={160}
+			height={32}
+			className="block border-[1px] border-black bg-[#F5F5DC]"
+			role="img"
+			aria-label={label}
+		/>
+	)
+}
+
+function StatRow({ label, value }: { label: string; value: string | number }) {
+	return (
+		<div className="flex justify-between gap-4">
+			<span className="font-bold">{label}</span>
+			<span className="tabular-nums">{value}</span>
+		</div>
+	)
+}
+
+export function PerfHud({ perf, lifecycle }: PerfHudProps) {
+	const [snapshot, setSnapshot] = useState(() => takeSnapshot(perf, lifecycle))
+
+	useEffect(() => {
+		const refresh = () => setSnapshot(takeSnapshot(perf, lifecycle))
+		const interval = setInterval(refresh, REFRESH_INTERVAL)
+
+		// Removals happen between refreshes - show them right away
+		Matter.Events.on(lifecycle, 'bodiesRemoved', refresh)
+
+		return () => {
+			clearInterval(interval)
+			Matter.Events.off(lifecycle, 'bodiesRemoved', refresh)
+		}
+	}, [perf, lifecycle])
+
+	const { stats } = snapshot
+
+	return (
+		<div
+			className="fixed top-20 left-8 z-10 flex flex-col gap-1 p-3 bg-white border-[1px] border-black rounded-2xl shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] font-mono text-xs"
+			aria-label="Performance"
+		>
+			<StatRow label="FPS" value={Math.round(stats.fps)} />
+			<Graph values={snapshot.fpsHistory} max={60} reference={60} color="#0080FF" label="FPS, last 5 seconds" />
+
+			<StatRow label="Step" value={`${stats.stepMs.toFixed(2)} ms`} />
+			<Graph
+				values={snapshot.stepHistory}
+				max={FRAME_BUDGET_MS}
+				reference={FRAME_BUDGET_MS}
+				color="#ec571c"
+				label="Physics step time, last 5 seconds"
+			/>
+
+			<StatRow label="Active" value={stats.activeBodies} />
+			<Graph values={snapshot.activeHistory} max={50} color="#00A000" label="Active bodies, last 5 seconds" />
+
+			<StatRow label="Sleeping" value={stats.sleepingBodies} />
+			<StatRow label="Broadphase pairs" value={stats.broadphasePairs} />
+			<StatRow label="Culled" value={snapshot.culled} />
+			<StatRow label="Removed (all)" value={snapshot.removed} />
+		</div>
+	)
+}
@@ -30,20 +30,73 @@
 import { useRef, useEffect, useState, useCallback } from 'react'
 import Matter from 'matter-js'
 import { useMatter } from '@/hooks/use-matter'
-import { createRandomShape } from '@/lib/shape-factory'
-import { STYLE_CONFIG } from '@/lib/matter-config'
+import { createEmitter } from '@/lib/emitters'
+import {
+	applyNeubrutalistStyle,
+	drawShapeAt,
+	fillFrozenTint,
+	fillMaterialPattern,
+	fillTexture,
+	getMaterialLineWidth,
+	traceRings,
+} from '@/lib/body-renderer'
+import { getBodyMaterial } from '@/lib/materials'
+import { getBodyOutline } from '@/lib/outline'
+import { getBodySize, getBodyTexture } from '@/lib/textures'
+import { drawConstraints } from '@/lib/constraint-renderer'
+import { isFrozen } from '@/lib/tools'
+import { getObstacleKind } from '@/lib/obstacles'
+import { DEBUG_COLORS, drawDebugOverlay } from '@/lib/debug-renderer'
+import { getSettings } from '@/lib/settings-store'
+import { SimulationRecorder } from '@/lib/recorder'
+import { SnapshotControls } from '@/components/snapshot-controls'
+import { HeadlineDrop } from '@/components/headline-drop'
+import { CompositeSpawner } from '@/components/composite-spawner'
+import { ForceFieldControls } from '@/components/force-field-controls'
+import { GravityControls } from '@/components/gravity-controls'
+import { ReplayControls, type PlaybackCursor } from '@/components/replay-controls'
+import { TransportControls } from '@/components/transport-controls'
+import { ToolPalette } from '@/components/tool-palette'
+import { ObstacleControls } from '@/components/obstacle-controls'
+import { LifecycleStats } from '@/components/lifecycle-stats'
+import { PerfHud } from '@/components/perf-hud'
+import { useSettings } from '@/hooks/use-settings'
+import { createSeededRandom, deriveSeed } from '@/lib/random'
 
 interface PhysicsCanvasProps {
 	onSpawn: () => void
 	spawnCount: number
+	/**
+	 * Optional seed for reproducible spawns.
+	 * Same seed + same spawn number = same burst of shapes.
+	 */
+	seed?: number
 }
 
-export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
+export function PhysicsCanvas({ onSpawn, spawnCount, seed }: PhysicsCanvasProps) {
 	const canvasRef = useRef<HTMLCanvasElement>(null)
 	// Start with 0 for SSR, will be set on client mount
 	const [dimensions, setDimensions] = useState({ width: 0, height: 0 })
 	const animationFrameRef = useRef<number | undefined>(undefined)
-	const [isMounted, setIsMounted] = useState(false)
+	// Real dimensions only exist on the client, so they double as "mounted"
+	const isMounted = dimensions.width > 0
+
+	/**
+	 * Latest dimensions for effects that should NOT re-run on resize
+	 * (spawning reads the width, but a resize must not spawn a new burst)
+	 */
+	const dimensionsRef = useRef(dimensions)
+	useEffect(() => {
+		dimensionsRef.current = dimensions
+	}, [dimensions])
+
+	/**
+	 * Recording + replay state
+	 * - recorder: tapes body transforms after every engine update
+	 * - playbackCursorRef: which recorded frame to draw (null = live)
+	 */
+	const [recorder] = useState(() => new SimulationRecorder())
+	const playbackCursorRef = useRef<PlaybackCursor>({ frame: null })
 
 	/**
 	 * EXPLAINER: Collision Handler with Visual Feedback
@@ -84,8 +137,11 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 			const bodiesToFlash = [bodyA, bodyB].filter((body) => !body.isStatic)
 
 			bodiesToFlash.forEach((body) => {
-				// Save original color
-				const originalColor = body.render.fillStyle
+				// Save original color - unless the body is still flashing from
+				// an earlier hit. Recordings and snapshots read it from here
+				// meanwhile, so nothing gets saved white.
+				const originalColor = body.plugin.flashColor ?? body.render.fillStyle
+				body.plugin.flashColor = originalColor
 
 				/**
 				 * CHALLENGE 4B: Experiment with flash effects!
@@ -116,18 +172,64 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 				// Restore original color after delay
 				setTimeout(() => {
 					body.render.fillStyle = originalColor as string
+					delete body.plugin.flashColor
 				}, 100)
 			})
 		})
 	}, [])
 
-	const { addBody, getWorld, getEngine } = useMatter({
+	const handleAfterUpdate = useCallback(
+		(engine: Matter.Engine) => {
+			recorder.capture(engine)
+		},
+		[recorder]
+	)
+
+	const {
+		addBody,
+		addComposite,
+		removeBody,
+		getWorld,
+		getEngine,
+		getTools,
+		isPaused,
+		setPaused,
+		step,
+		lifecycle,
+		emitters,
+		forceFields,
+		gravity,
+		obstacles,
+		perf,
+	} = useMatter({
 		canvasRef,
 		width: dimensions.width,
 		height: dimensions.height,
 		onCollision: handleCollision,
+		onAfterUpdate: handleAfterUpdate,
 	})
 
+	const { showPerformance } = useSettings()
+
+	/**
+	 * Freeze the live simulation while watching a replay,
+	 * so nothing changes behind the tape. Leaving the replay
+	 * restores whatever pause state we had before.
+	 */
+	const [isReplaying, setIsReplaying] = useState(false)
+	const pausedBeforeReplayRef = useRef(false)
+
+	const handleReplayChange = (replaying: boolean) => {
+		if (replaying) {
+			pausedBeforeReplayRef.current = isPaused
+			setPaused(true)
+		} else {
+			setPaused(pausedBeforeReplayRef.current)
+		}
+
+		setIsReplaying(replaying)
+	}
+
 	/**
 	 * EXPLAINER: Canvas Resize Handling
 	 *
@@ -138,11 +240,10 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 	 * - Canvas width/height attributes = drawing resolution
 	 * - CSS width/height = display size
 	 * - They must match for crisp rendering!
+	 *
+	 * The physics world survives resizes - useMatter just moves the walls.
 	 */
 	useEffect(() => {
-		// Mark as mounted (client-side only)
-		setIsMounted(true)
-
 		let resizeTimeout: NodeJS.Timeout
 
 		const updateDimensions = () => {
@@ -159,6 +260,7 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 		window.addEventListener('resize', updateDimensions)
 
 		return () => {
+			clearTimeout(resizeTimeout)
 			window.removeEventListener('resize', updateDimensions)
 		}
 	}, [])
@@ -175,10 +277,12 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 	 * 4. For each body:
 	 *    a. Save canvas state
 	 *    b. Translate to body position (move canvas origin)
-	 *    c. Rotate by body angle (rotate canvas)
-	 *    d. Draw the body shape
-	 *    e. Restore canvas state (undo transforms)
-	 * 5. Request next frame
+	 *    c. Draw the body shape
+	 *    d. Restore canvas state (undo transforms)
+	 * 5. Draw the constraints (chain links, ragdoll joints...)
+	 * 6. Draw the active tool's overlay (slingshot band, eraser brush...)
+	 * 7. Draw the debug overlay (if "Debug view" is on)
+	 * 8. Request next frame
 	 *
 	 * QUESTION: Why save/restore canvas state?
 	 * Answer: Transforms (translate, rotate) are cumulative!
@@ -186,8 +290,7 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 	 */
 	useEffect(() => {
 		const canvas = canvasRef.current
-		const world = getWorld()
-		if (!canvas || !world) return
+		if (!canvas) return
 
 		const ctx = canvas.getContext('2d')
 		if (!ctx) return
@@ -205,21 +308,53 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 		 *
 		 * Docs: https://developer.mozilla.org/en-US/docs/Web/API/window/requestAnimationFrame
 		 */
-		const render = () => {
+		const render = (timestamp: number = performance.now()) => {
+			// Feed the performance HUD (render FPS)
+			perf.recordFrame(timestamp)
+
 			// Clear canvas (entire screen)
 			ctx.clearRect(0, 0, canvas.width, canvas.height)
 
+			/**
+			 * EXPLAINER: Replay Mode
+			 *
+			 * When a recorded frame is selected, draw the tape instead of
+			 * the live world. Each transform says WHERE a body was; its
+			 * spawn event says WHAT it looked like.
+			 */
+			const replayFrame = playbackCursorRef.current.frame
+			if (replayFrame !== null) {
+				recorder.getFrame(Math.floor(replayFrame)).forEach(({ id, x, y, angle }) => {
+					const spawn = recorder.getSpawn(id)
+					if (spawn) {
+						drawShapeAt(ctx, spawn.body.shape, spawn.body.fillStyle, x, y, angle, spawn.body.preset, spawn.body.texture)
+					}
+				})
+
+				animationFrameRef.current = requestAnimationFrame(render)
+				return
+			}
+
 			/**
 			 * Draw each body in the world
 			 *
+			 * We ask for the world every frame: it only exists once the
+			 * canvas has mounted and has real dimensions.
+			 *
 			 * CHALLENGE 5A: Visualize sleeping bodies
 			 * Check body.isSleeping and use different colors:
 			 * - Awake: vibrant colors (from render.fillStyle)
 			 * - Sleeping: gray or desaturated colors
+			 * (The debug view does exactly this - turn it on in settings!)
 			 */
-			world.bodies.forEach((body) => {
-				// Skip rendering walls (they're transparent)
-				if (body.isStatic) return
+			const world = getWorld()
+			const { showDebug } = getSettings()
+
+			world?.bodies.forEach((body) => {
+				// Skip rendering walls (they're transparent) - but not shapes
+				// the freeze tool made static, or obstacles the user built
+				const frozen = isFrozen(body)
+				if (body.isStatic && !frozen && !getObstacleKind(body)) return
 
 				/**
 				 * EXPLAINER: Canvas Transformations
@@ -227,20 +362,18 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 				 * Canvas has a transformation matrix. We manipulate it to:
 				 * 1. save() - Save current state
 				 * 2. translate() - Move origin to body position
-				 * 3. rotate() - Rotate canvas by body angle
-				 * 4. Draw at (0,0) - Now (0,0) is the body's center!
-				 * 5. restore() - Reset to saved state
+				 * 3. Draw at (0,0) - Now (0,0) is the body's center!
+				 * 4. restore() - Reset to saved state
 				 *
-				 * This is easier than calculating rotated vertex positions manually!
+				 * No rotate() here: Matter.js keeps body.vertices in world
+				 * space, already rotated by body.angle. Rotating the canvas
+				 * as well would spin every polygon twice.
 				 */
 				ctx.save()
 
 				// Move origin to body center
 				ctx.translate(body.position.x, body.position.y)
 
-				// Rotate canvas by body angle (in radians)
-				ctx.rotate(body.angle)
-
 				/**
 				 * CHALLENGE 6C: Neubrutalist Styling
 				 *
@@ -259,15 +392,12 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 					const brutalistColors = ['#FF00FF', '#00FF00', '#FFFF00', '#00FFFF', '#FF6B00', '#FF0080', '#80FF00', '#0080FF']
 					body.render.fillStyle = brutalistColors[Math.floor(Math.random() * brutalistColors.length)]
 				}
-				ctx.fillStyle = body.render.fillStyle
-				ctx.strokeStyle = STYLE_CONFIG.strokeColor
-				ctx.lineWidth = STYLE_CONFIG.lineWidth
-
-				// Hard shadow (no blur = neubrutalism!)
-				ctx.shadowColor = STYLE_CONFIG.shadowColor
-				ctx.shadowOffsetX = STYLE_CONFIG.shadowOffset
-				ctx.shadowOffsetY = STYLE_CONFIG.shadowOffset
-				ctx.shadowBlur = 0 // Zero blur = hard shadow
+				// Fill, thick border and hard shadow (no blur = neubrutalism!)
+				// CHALLENGE 5A: the debug view grays out sleeping bodies
+				const fillStyle = showDebug && body.isSleeping ? DEBUG_COLORS.sleeping : body.render.fillStyle
+				// Material presets bring their own border width and pattern
+				const material = getBodyMaterial(body)
+				applyNeubrutalistStyle(ctx, fillStyle, getMaterialLineWidth(material))
 
 				/**
 				 * EXPLAINER: Drawing Different Shape Types
@@ -276,13 +406,35 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 				 * We check the shape type and draw accordingly.
 				 *
 				 * Circles: Use ctx.arc()
+				 * Outlines: the rings a custom shape was made from (lib/outline.ts)
 				 * Polygons: Use ctx.beginPath() and draw vertices
+				 *
+				 * Textures are drawn unrotated, so they get body.angle - except
+				 * for outlines, where the canvas is already rotated.
 				 */
+				const outline = getBodyOutline(body)
+				// Sprites and image patterns go between the fill and the border
+				const texture = getBodyTexture(body)
+
 				if (body.circleRadius) {
 					// Draw circle
 					ctx.beginPath()
 					ctx.arc(0, 0, body.circleRadius, 0, Math.PI * 2)
 					ctx.fill()
+					if (texture) fillTexture(ctx, texture, getBodySize(body), body.angle)
+					fillMaterialPattern(ctx, material)
+					if (frozen) fillFrozenTint(ctx)
+					ctx.stroke()
+				} else if (outline) {
+					// Stars, SVG imports...: draw the original outline, not the
+					// convex pieces. It is stored unrotated, so rotate here.
+					ctx.rotate(body.angle)
+					ctx.beginPath()
+					traceRings(ctx, outline)
+					ctx.fill('evenodd')
+					if (texture) fillTexture(ctx, texture, getBodySize(body))
+					fillMaterialPattern(ctx, material)
+					if (frozen) fillFrozenTint(ctx)
 					ctx.stroke()
 				} else {
 					// Draw polygon from vertices
@@ -297,6 +449,9 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 
 					ctx.closePath()
 					ctx.fill()
+					if (texture) fillTexture(ctx, texture, getBodySize(body), body.angle)
+					fillMaterialPattern(ctx, material)
+					if (frozen) fillFrozenTint(ctx)
 					ctx.stroke()
 				}
 
@@ -305,14 +460,26 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 				 *
 				 * Try removing the translate and see what happens!
 				 *
-				 * Answer: Without translate, rotation happens around (0,0) canvas origin,
-				 * not the body's center. Bodies would orbit the corner instead of
-				 * rotating in place!
+				 * Answer: Circles are drawn at (0,0) and polygon vertices are offset
+				 * by -body.position. Without translate, every shape would be drawn
+				 * around the top-left corner of the canvas instead of in place!
 				 */
 
 				ctx.restore()
 			})
 
+			// Links between bodies go over the bodies they connect
+			if (world) drawConstraints(ctx, world)
+
+			// The slingshot band, blast rings, eraser brush...
+			getTools()?.drawOverlay(ctx, timestamp)
+
+			// Bounding boxes, contacts, velocities... on top of everything
+			const engine = getEngine()
+			if (showDebug && engine) {
+				drawDebugOverlay(ctx, engine, { fields: forceFields.getFields(), gravity: gravity.getState() })
+			}
+
 			// Request next frame
 			animationFrameRef.current = requestAnimationFrame(render)
 		}
@@ -326,17 +493,21 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 				cancelAnimationFrame(animationFrameRef.current)
 			}
 		}
-	}, [getWorld])
+	}, [getWorld, getEngine, getTools, recorder, forceFields, gravity, perf, isMounted])
 
 	/**
 	 * EXPLAINER: Spawning Shapes
 	 *
-	 * When the toggle is clicked, we spawn 30-50 shapes.
-	 * Each shape:
-	 * 1. Gets random X position across screen width
-	 * 2. Starts at Y = 0 (top of screen)
-	 * 3. Is created by shape factory (random type)
-	 * 4. Is added to the physics world
+	 * When the toggle is clicked, we start an EMITTER (lib/emitters.ts).
+	 * Which one is picked under "Spawn" in the settings panel:
+	 * - rain: 30-50 shapes across the top edge (the classic burst)
+	 * - fountain: a jet of shapes from the bottom, for 5 seconds
+	 * - burst: shapes flying out of one point in every direction
+	 * - stream: shapes pouring from the mouse pointer, for 4 seconds
+	 * - grid: a neat block of boxes, dropped row by row
+	 *
+	 * The emitter runs with the engine: it adds shapes over the next
+	 * updates, and stops by itself.
 	 *
 	 * CHALLENGE: Try different spawn patterns!
 	 * - Spawn in a circle
@@ -346,45 +517,43 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 	useEffect(() => {
 		if (spawnCount === 0) return
 
-		const canvas = canvasRef.current
-		if (!canvas) return
-
-		if (!addBody || dimensions.width === 0 || dimensions.height === 0) {
-			return
-		}
+		const { width } = dimensionsRef.current
+		if (width === 0) return
 
-		// Spawn random number of shapes (30-50)
-		const count = Math.floor(Math.random() * 21) + 30
+		/**
+		 * EXPLAINER: One random source per burst
+		 *
+		 * With a seed, each burst gets its own seeded stream derived from
+		 * the seed and the spawn number - so burst #3 is always burst #3,
+		 * no matter how long the page has been running.
+		 * Without a seed we fall back to plain Math.random.
+		 */
+		const rng = seed === undefined ? Math.random : createSeededRandom(deriveSeed(seed, spawnCount))
 
-		for (let i = 0; i < count; i++) {
-			// Random X position across screen width
-			const x = Math.random() * dimensions.width
+		emitters.add(createEmitter(getSettings().emitter, { rng }))
+	}, [spawnCount, seed, emitters, isMounted])
 
-			// Start at top of screen (slightly above so they're not visible immediately)
-			const y = -50
+	/**
+	 * Stream emitters follow the pointer, so tell them where it is
+	 */
+	useEffect(() => {
+		const canvas = canvasRef.current
+		if (!canvas) return
 
-			// Create random shape
-			const shape = createRandomShape(x, y)
+		const handlePointerMove = (event: PointerEvent) => {
+			emitters.setPointer({ x: event.offsetX, y: event.offsetY })
+		}
+		const handlePointerLeave = () => emitters.setPointer(null)
 
-			/**
-			 * ADVANCED: Add random initial velocity
-			 * This makes shapes scatter more when spawned!
-			 *
-			 * CHALLENGE: Try different velocity patterns:
-			 * - All to the right: { x: 5, y: 0 }
-			 * - Explosion from center: radial velocity
-			 * - Downward only: { x: 0, y: 5 }
-			 */
-			const initialVelocity = {
-				x: (Math.random() - 0.5) * 2, // Random horizontal (-1 to 1)
-				y: Math.random() * 2, // Random downward (0 to 2)
-			}
-			Matter.Body.setVelocity(shape, initialVelocity)
+		canvas.addEventListener('pointermove', handlePointerMove)
+		canvas.addEventListener('pointerleave', handlePointerLeave)
 
-			// Add to physics world
-			addBody(shape)
+		return () => {
+			canvas.removeEventListener('pointermove', handlePointerMove)
+			canvas.removeEventListener('pointerleave', handlePointerLeave)
+			emitters.setPointer(null)
 		}
-	}, [spawnCount, addBody, dimensions.width, dimensions.height])
+	}, [emitters, isMounted])
 
 	/**
 	 * CHALLENGE 5B: Performance Monitoring
@@ -414,13 +583,46 @@ export function PhysicsCanvas({ onSpawn, spawnCount }: PhysicsCanvasProps) {
 	}
 
 	return (
-		<canvas
-			ref={canvasRef}
-			width={dimensions.width}
-			height={dimensions.height}
-			className="fixed inset-0 bg-[#F5F5DC]"
-			style={{ touchAction: 'none' }} // Prevent scrolling on touch devices
-		/>
+		<>
+			<canvas
+				ref={canvasRef}
+				width={dimensions.width}
+				height={dimensions.height}
+				className="fixed inset-0 bg-[#F5F5DC]"
+				style={{ touchAction: 'none' }} // Prevent scrolling on touch devices
+			/>
+
+			<ToolPalette />
+
+			<ObstacleControls obstacles={obstacles} />
+
+			<TransportControls
+				isPaused={isPaused}
+				onPausedChange={setPaused}
+				onStep={step}
+				disabled={isReplaying}
+			/>
+
+			<SnapshotControls getWorld={getWorld} addBody={addBody} removeBody={removeBody} />
+
+			<HeadlineDrop width={dimensions.width} addBody={addBody} />
+
+			<CompositeSpawner width={dimensions.width} addComposite={addComposite} />
+
+			<ForceFieldControls canvasRef={canvasRef} forceFields={forceFields} />
+
+			<GravityControls canvasRef={canvasRef} gravity={gravity} />
+
+			<ReplayControls
+				recorder={recorder}
+				cursorRef={playbackCursorRef}
+				onReplayChange={handleReplayChange}
+			/>
+
+			<LifecycleStats lifecycle={lifecycle} />
+
+			{showPerformance && <PerfHud perf={perf} lifecycle={lifecycle} />}
+		</>
 	)
 }
 
@@ -0,0 +1,202 @@
+/**
+ * EXPLAINER: Replay Controls
+ *
+ * A tiny "video player" for the physics simulation:
+ * - REC starts/stops taping the world (see lib/recorder.ts)
+ * - REPLAY switches the canvas from the live engine to the tape
+ * - Play / pause, a scrub bar and speed buttons drive the playhead
+ *
+ * The playhead lives in a shared ref (PlaybackCursor) instead of React
+ * state, so the canvas render loop can read it 60 times per second
+ * without re-rendering React every frame.
+ *
+ * CHALLENGE: Record a pile collapsing, then scrub to the exact frame
+ * where two shapes first touch. Try 0.25x speed!
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { SimulationRecorder } from '@/lib/recorder'
+import { NeubrutalistButton } from '@/components/neubrutalist-button'
+
+/**
+ * Shared playhead: null = show the live engine, number = recorded frame
+ */
+export interface PlaybackCursor {
+	frame: number | null
+}
+
+interface ReplayControlsProps {
+	recorder: SimulationRecorder
+	cursorRef: React.RefObject<PlaybackCursor>
+	onReplayChange: (isReplaying: boolean) => void
+}
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2] as const
+
+// Recorded frames are one engine update apart (runner delta = 1000 / 60)
+const FRAME_DURATION = 1000 / 60
+
+export function ReplayControls({ recorder, cursorRef, onReplayChange }: ReplayControlsProps) {
+	const [isRecording, setIsRecording] = useState(false)
+	const [isReplaying, setIsReplaying] = useState(false)
+	const [isPlaying, setIsPlaying] = useState(false)
+	const [frameCount, setFrameCount] = useState(0)
+	const [frame, setFrame] = useState(0)
+	const [speed, setSpeed] = useState<number>(1)
+
+	/**
+	 * While recording, poll the frame count for the label.
+	 * The recorder stops itself when full - mirror that here.
+	 */
+	useEffect(() => {
+		if (!isRecording) return
+
+		const interval = setInterval(() => {
+			setFrameCount(recorder.frameCount)
+			if (!recorder.isRecording) setIsRecording(false)
+		}, 250)
+
+		return () => clearInterval(interval)
+	}, [isRecording, recorder])
+
+	/**
+	 * Playback loop: advance the playhead by real elapsed time × speed
+	 */
+	useEffect(() => {
+		if (!isPlaying) return
+
+		let rafId: number
+		let lastTime = performance.now()
+
+		const tick = (time: number) => {
+			const cursor = cursorRef.current
+			const elapsed = time - lastTime
+			lastTime = time
+
+			const lastFrame = Math.max(0, frameCount - 1)
+			const next = Math.min((cursor.frame ?? 0) + (elapsed / FRAME_DURATION) * speed, lastFrame)
+
+			cursor.frame = next
+			setFrame(next)
+
+			if (next >= lastFrame) {
+				setIsPlaying(false)
+				return
+			}
+
+			rafId = requestAnimationFrame(tick)
+		}
+
+		rafId = requestAnimationFrame(tick)
+
+		return () => cancelAnimationFrame(rafId)
+	}, [isPlaying, speed, frameCount, cursorRef])
+
+	const seek = (target: number) => {
+		cursorRef.current.frame = target
+		setFrame(target)
+	}
+
+	const handleRecord = () => {
+		if (isRecording) {
+			recorder.stop()
+			setIsRecording(false)
+			setFrameCount(recorder.frameCount)
+			return
+		}
+
+		if (isReplaying) exitReplay()
+
+		recorder.start()
+		setFrameCount(0)
+		setIsRecording(true)
+	}
+
+	const enterReplay = () => {
+		if (isRecording) {
+			recorder.stop()
+			setIsRecording(false)
+		}
+
+		setFrameCount(recorder.frameCount)
+		seek(0)
+		setIsReplaying(true)
+		onReplayChange(true)
+	}
+
+	const exitReplay = () => {
+		cursorRef.current.frame = null
+		setIsPlaying(false)
+		setIsReplaying(false)
+		onReplayChange(false)
+	}
+
+	const handlePlayPause = () => {
+		// Restart from the beginning when the tape already ended
+		if (!isPlaying && frame >= frameCount - 1) seek(0)
+		setIsPlaying(!isPlaying)
+	}
+
+	const currentFrame = Math.floor(frame)
+
+	return (
+		<div className="fixed bottom-8 right-8 z-10 flex flex-col items-end gap-2">
+			<div className="flex gap-2">
+				<NeubrutalistButton
+					onClick={handleRecord}
+					accent={isRecording}
+					aria-pressed={isRecording}
+				>
+					● REC {isRecording && frameCount}
+				</NeubrutalistButton>
+				<NeubrutalistButton
+					onClick={isReplaying ? exitReplay : enterReplay}
+					disabled={!isReplaying && (isRecording || frameCount === 0)}
+					accent={isReplaying}
+					aria-pressed={isReplaying}
+				>
+					REPLAY
+				</NeubrutalistButton>
+			</div>
+
+			{isReplaying && (
+				<div className="flex items-center gap-2 px-3 py-2 bg-white border-[1px] border-black rounded-full shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+					<NeubrutalistButton
+						onClick={handlePlayPause}
+						aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+					>
+						{isPlaying ? '❚❚' : '▶'}
+					</NeubrutalistButton>
+
+					<input
+						type="range"
+						min={0}
+						max={Math.max(0, frameCount - 1)}
+						step={1}
+						value={currentFrame}
+						onChange={(event) => seek(Number(event.target.value))}
+						className="w-48 accent-[#ec571c]"
+						aria-label="Replay position"
+					/>
+
+					{PLAYBACK_SPEEDS.map((value) => (
+						<NeubrutalistButton
+							key={value}
+							onClick={() => setSpeed(value)}
+							accent={speed === value}
+							aria-pressed={speed === value}
+						>
+							{value}x
+						</NeubrutalistButton>
+					))}
+
+					<span className="font-mono text-xs tabular-nums">
+						{currentFrame + 1}/{frameCount} · {(recorder.getFrameTime(currentFrame) / 1000).toFixed(2)}s
+					</span>
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,307 @@
+/**
+ * EXPLAINER: Live Settings Panel
+ *
+ * Every slider here writes to the settings store (lib/settings-store.ts).
+ * useMatter listens to the store and pushes the new values into the
+ * running engine - no world rebuild, no lost shapes.
+ *
+ * What you can tweak:
+ * - Gravity x / y
+ * - Time scale (slow motion / fast forward)
+ * - Solver iterations (accuracy vs speed)
+ * - Sleeping on/off + how long before a body sleeps
+ * - Spawn pattern: rain, fountain, burst, stream or grid (lib/emitters.ts)
+ * - Material for NEW shapes: a preset (rubber, ice, wood, steel, balloon)
+ *   or custom bounciness, friction, air drag, density
+ * - Shape mix: which shapes spawn, and how often (lib/shape-registry.ts),
+ *   plus your own shapes imported from SVG (lib/svg-import.ts) or images
+ *   (lib/textures.ts)
+ * - Cleanup rules (off-screen culling, max bodies, lifetime, sleep timeout)
+ * - Debug view (bounding boxes, contacts, velocities, sleeping bodies)
+ * - Performance HUD (FPS, step time, body counts)
+ *
+ * The controls come from the neubrutalist control family: switches
+ * (NeubrutalistToggle), segmented pickers, sliders and steppers.
+ *
+ * CHALLENGE 7D: Set position iterations to 2, spawn a pile, then
+ * slide it to 10. Watch the overlap disappear!
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useSettings } from '@/hooks/use-settings'
+import { useShapes } from '@/hooks/use-shapes'
+import { SvgImport } from '@/components/svg-import'
+import { ImageImport } from '@/components/image-import'
+import { resetSettings, updateSettings } from '@/lib/settings-store'
+import { resetShapeMix, setShapeEnabled, setShapeWeight, unregisterShape } from '@/lib/shape-registry'
+import { MATERIAL_PRESETS } from '@/lib/matter-config'
+import { EMITTER_KINDS, type EmitterKind } from '@/lib/emitters'
+import { getMaterialPhysics, MATERIAL_NAMES, type MaterialName } from '@/lib/materials'
+import type { MaterialSettings } from '@/lib/settings-store'
+import { NeubrutalistSegmented, type SegmentedOption } from '@/components/neubrutalist-segmented'
+import { NeubrutalistSlider } from '@/components/neubrutalist-slider'
+import { NeubrutalistStepper } from '@/components/neubrutalist-stepper'
+import { NeubrutalistToggle } from '@/components/neubrutalist-toggle'
+import { NeubrutalistButton } from '@/components/neubrutalist-button'
+
+/**
+ * Pick a preset: copies its values into the sliders
+ */
+function selectMaterialPreset(name: MaterialName | null) {
+	updateSettings({
+		materialPreset: name,
+		...(name && { material: getMaterialPhysics(name) }),
+	})
+}
+
+/**
+ * Moving a slider by hand turns the material into a custom one
+ */
+function updateCustomMaterial(material: Partial<MaterialSettings>) {
+	updateSettings({ material, materialPreset: null })
+}
+
+const MATERIAL_OPTIONS: SegmentedOption<MaterialName | null>[] = [
+	{ value: null, label: 'Custom' },
+	...MATERIAL_NAMES.map((name) => ({ value: name, label: MATERIAL_PRESETS[name].label })),
+]
+
+const SPAWN_PATTERN_OPTIONS: SegmentedOption<EmitterKind>[] = EMITTER_KINDS.map((kind) => ({ value: kind, label: kind }))
+
+/**
+ * One row per registered shape: on/off, weight, and resulting share
+ * (imported shapes can also be removed)
+ */
+function ShapeMixSection() {
+	const shapes = useShapes()
+	const totalWeight = shapes.reduce((sum, shape) => sum + (shape.enabled ? shape.weight : 0), 0)
+
+	return (
+		<>
+			<div className="mt-2 flex items-center justify-between">
+				<p className="text-xs font-black uppercase">Shape mix</p>
+				<button onClick={resetShapeMix} className="text-xs font-bold underline">
+					reset
+				</button>
+			</div>
+			{shapes.map((shape) => {
+				const share = shape.enabled && totalWeight > 0 ? (shape.weight / totalWeight) * 100 : 0
+
+				return (
+					<div key={shape.name} className="flex items-center justify-between gap-3 text-xs font-bold">
+						<label className="flex w-24 shrink-0 items-center gap-1">
+							<input
+								type="checkbox"
+								checked={shape.enabled}
+								onChange={(event) => setShapeEnabled(shape.name, event.target.checked)}
+								className="accent-[#ec571c]"
+							/>
+							{shape.label}
+						</label>
+						<input
+							type="range"
+							min={0}
+							max={10}
+							step={1}
+							value={shape.weight}
+							disabled={!shape.enabled}
+							onChange={(event) => setShapeWeight(shape.name, Number(event.target.value))}
+							className="w-28 accent-[#ec571c] disabled:opacity-40"
+							aria-label={`${shape.label} weight`}
+						/>
+						<span className="w-12 text-right font-mono tabular-nums">{Math.round(share)}%</span>
+						{shape.removable && (
+							<button
+								onClick={() => unregisterShape(shape.name)}
+								className="font-black"
+								aria-label={`Remove ${shape.label}`}
+							>
+								×
+							</button>
+						)}
+					</div>
+				)
+			})}
+			<SvgImport />
+			<ImageImport />
+		</>
+	)
+}
+
+export function SettingsPanel() {
+	const settings = useSettings()
+	const [isOpen, setIsOpen] = useState(false)
+
+	return (
+		<div className="fixed top-8 right-8 z-10 flex flex-col items-end gap-2">
+			<NeubrutalistButton
+				size="lg"
+				onClick={() => setIsOpen(!isOpen)}
+				aria-expanded={isOpen}
+				aria-controls="settings-panel"
+			>
+				SETTINGS
+			</NeubrutalistButton>
+
+			{isOpen && (
+				<div
+					id="settings-panel"
+					className="flex flex-col gap-2 p-4 bg-white border-[1px] border-black rounded-2xl shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]"
+				>
+					<NeubrutalistToggle
+						label="Debug view"
+						checked={settings.showDebug}
+						onCheckedChange={(checked) => updateSettings({ showDebug: checked })}
+					/>
+					<NeubrutalistToggle
+						label="Performance"
+						checked={settings.showPerformance}
+						onCheckedChange={(checked) => updateSettings({ showPerformance: checked })}
+					/>
+
+					<p className="mt-2 text-xs font-black uppercase">World</p>
+					<NeubrutalistSlider
+						label="Gravity X"
+						value={settings.gravity.x}
+						min={-2}
+						max={2}
+						step={0.1}
+						onChange={(x) => updateSettings({ gravity: { x } })}
+					/>
+					<NeubrutalistSlider
+						label="Gravity Y"
+						value={settings.gravity.y}
+						min={-2}
+						max={2}
+						step={0.1}
+						onChange={(y) => updateSettings({ gravity: { y } })}
+					/>
+					<NeubrutalistSlider
+						label="Time scale"
+						value={settings.timeScale}
+						min={0}
+						max={2}
+						step={0.05}
+						format={(timeScale) => `${timeScale}x`}
+						onChange={(timeScale) => updateSettings({ timeScale })}
+					/>
+					<NeubrutalistStepper
+						label="Position iter."
+						value={settings.positionIterations}
+						min={1}
+						max={20}
+						onChange={(positionIterations) => updateSettings({ positionIterations })}
+					/>
+					<NeubrutalistStepper
+						label="Velocity iter."
+						value={settings.velocityIterations}
+						min={1}
+						max={20}
+						onChange={(velocityIterations) => updateSettings({ velocityIterations })}
+					/>
+
+					<NeubrutalistToggle
+						label="Sleeping"
+						checked={settings.enableSleeping}
+						onCheckedChange={(checked) => updateSettings({ enableSleeping: checked })}
+					/>
+					<NeubrutalistSlider
+						label="Sleep after"
+						value={settings.sleepThreshold}
+						min={10}
+						max={240}
+						step={10}
+						onChange={(sleepThreshold) => updateSettings({ sleepThreshold })}
+					/>
+
+					<p className="mt-2 text-xs font-black uppercase">Spawn</p>
+					<NeubrutalistSegmented
+						label="Spawn pattern"
+						options={SPAWN_PATTERN_OPTIONS}
+						value={settings.emitter}
+						onChange={(emitter) => updateSettings({ emitter })}
+					/>
+
+					<p className="mt-2 text-xs font-black uppercase">New shapes</p>
+					<NeubrutalistSegmented
+						label="Material preset"
+						options={MATERIAL_OPTIONS}
+						value={settings.materialPreset}
+						onChange={selectMaterialPreset}
+					/>
+					<NeubrutalistSlider
+						label="Restitution"
+						value={settings.material.restitution}
+						min={0}
+						max={1}
+						step={0.05}
+						onChange={(restitution) => updateCustomMaterial({ restitution })}
+					/>
+					<NeubrutalistSlider
+						label="Friction"
+						value={settings.material.friction}
+						min={0}
+						max={1}
+						step={0.05}
+						onChange={(friction) => updateCustomMaterial({ friction })}
+					/>
+					<NeubrutalistSlider
+						label="Air friction"
+						value={settings.material.frictionAir}
+						min={0}
+						max={0.1}
+						step={0.005}
+						onChange={(frictionAir) => updateCustomMaterial({ frictionAir })}
+					/>
+					<NeubrutalistSlider
+						label="Density"
+						value={settings.material.density}
+						min={0.0001}
+						max={0.01}
+						step={0.0001}
+						onChange={(density) => updateCustomMaterial({ density })}
+					/>
+
+					<ShapeMixSection />
+
+					<p className="mt-2 text-xs font-black uppercase">Cleanup (0 = off)</p>
+					<NeubrutalistToggle
+						label="Cull off-screen"
+						checked={settings.lifecycle.cullOffscreen}
+						onCheckedChange={(checked) => updateSettings({ lifecycle: { cullOffscreen: checked } })}
+					/>
+					<NeubrutalistSlider
+						label="Max bodies"
+						value={settings.lifecycle.maxBodies}
+						min={0}
+						max={1000}
+						step={50}
+						onChange={(maxBodies) => updateSettings({ lifecycle: { maxBodies } })}
+					/>
+					<NeubrutalistSlider
+						label="Lifetime (s)"
+						value={settings.lifecycle.timeToLive}
+						min={0}
+						max={120}
+						step={5}
+						onChange={(timeToLive) => updateSettings({ lifecycle: { timeToLive } })}
+					/>
+					<NeubrutalistSlider
+						label="Sleep timeout (s)"
+						value={settings.lifecycle.sleepTimeout}
+						min={0}
+						max={60}
+						step={1}
+						onChange={(sleepTimeout) => updateSettings({ lifecycle: { sleepTimeout } })}
+					/>
+
+					<NeubrutalistButton onClick={resetSettings} accent className="mt-2 self-start">
+						RESET
+					</NeubrutalistButton>
+				</div>
+			)}
+		</div>
+	)
+}
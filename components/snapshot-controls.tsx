@@ -0,0 +1,99 @@
+/**
+ * EXPLAINER: Save / Load Scene Controls
+ *
+ * Two neubrutalist buttons:
+ * - SAVE downloads every dynamic (or frozen) body as a versioned JSON snapshot
+ * - LOAD reads a snapshot file and rebuilds the pile
+ *
+ * Loading replaces the current dynamic and frozen bodies, so what you
+ * see is exactly what was saved. Walls and obstacles stay put.
+ *
+ * The same JSON files work as fixtures - keep interesting piles in
+ * the repo and load them when reproducing a bug.
+ */
+
+'use client'
+
+import { useRef, useState } from 'react'
+import Matter from 'matter-js'
+import { isFrozen } from '@/lib/tools'
+import { loadWorldSnapshot, parseWorldSnapshot, serializeWorld } from '@/lib/world-snapshot'
+import { NeubrutalistButton } from '@/components/neubrutalist-button'
+
+interface SnapshotControlsProps {
+	getWorld: () => Matter.World | undefined
+	addBody: (body: Matter.Body) => void
+	removeBody: (body: Matter.Body) => void
+}
+
+export function SnapshotControls({ getWorld, addBody, removeBody }: SnapshotControlsProps) {
+	const fileInputRef = useRef<HTMLInputElement>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	const handleSave = () => {
+		const world = getWorld()
+		if (!world) return
+
+		const snapshot = serializeWorld(world)
+		const blob = new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' })
+		const url = URL.createObjectURL(blob)
+
+		// Trigger a download through a temporary link
+		const link = document.createElement('a')
+		link.href = url
+		link.download = `physics-scene-${snapshot.createdAt.replace(/[:.]/g, '-')}.json`
+		link.click()
+
+		URL.revokeObjectURL(url)
+	}
+
+	const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0]
+		// Reset so picking the same file twice still fires onChange
+		event.target.value = ''
+		if (!file) return
+
+		const world = getWorld()
+		if (!world) return
+
+		try {
+			const snapshot = parseWorldSnapshot(await file.text())
+
+			// Replace the current pile with the saved one - only once the
+			// saved one was rebuilt, so a broken file keeps the current pile
+			const previous = world.bodies.filter((body) => !body.isStatic || isFrozen(body))
+			loadWorldSnapshot(snapshot, addBody)
+			previous.forEach(removeBody)
+			setError(null)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Could not load scene')
+		}
+	}
+
+	return (
+		<div className="fixed bottom-8 left-8 z-10 flex flex-col items-start gap-2">
+			<div className="flex gap-3">
+				<NeubrutalistButton size="lg" onClick={handleSave}>
+					SAVE
+				</NeubrutalistButton>
+				<NeubrutalistButton size="lg" onClick={() => fileInputRef.current?.click()}>
+					LOAD
+				</NeubrutalistButton>
+			</div>
+
+			<input
+				ref={fileInputRef}
+				type="file"
+				accept="application/json,.json"
+				className="hidden"
+				onChange={handleFileChange}
+			/>
+
+			{error && (
+				<p role="alert" className="px-3 py-1 bg-[#FF0080] border-[1px] border-black text-xs font-bold">
+					{error}
+				</p>
+			)}
+		</div>
+	)
+}
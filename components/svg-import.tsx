@@ -0,0 +1,86 @@
+/**
+ * EXPLAINER: SVG Import Controls
+ *
+ * Two ways to bring your own shapes into the pile:
+ * - IMPORT SVG reads a .svg file (one shape per filled <path>)
+ * - Paste bare path data ("M 0 0 L 100 0 ...") and press ADD
+ *
+ * Imported shapes join the shape mix right away, with an × to remove
+ * them again (see lib/svg-import.ts).
+ */
+
+'use client'
+
+import { useRef, useState } from 'react'
+import { registerSvgShapes } from '@/lib/svg-import'
+import { NeubrutalistButton } from '@/components/neubrutalist-button'
+
+export function SvgImport() {
+	const fileInputRef = useRef<HTMLInputElement>(null)
+	const [pathData, setPathData] = useState('')
+	const [pastedCount, setPastedCount] = useState(0)
+	const [error, setError] = useState<string | null>(null)
+
+	const importSource = (source: string, name: string) => {
+		try {
+			registerSvgShapes(source, name)
+			setError(null)
+			return true
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Could not import SVG')
+			return false
+		}
+	}
+
+	const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0]
+		// Reset so picking the same file twice still fires onChange
+		event.target.value = ''
+		if (!file) return
+
+		importSource(await file.text(), file.name.replace(/\.svg$/i, ''))
+	}
+
+	const handleAddPath = () => {
+		// Every paste gets its own name, so it doesn't replace the last one
+		if (importSource(pathData, `path-${pastedCount + 1}`)) {
+			setPastedCount(pastedCount + 1)
+			setPathData('')
+		}
+	}
+
+	return (
+		<div className="flex flex-col gap-2">
+			<div className="flex items-center gap-2">
+				<NeubrutalistButton size="sm" onClick={() => fileInputRef.current?.click()}>
+					IMPORT SVG
+				</NeubrutalistButton>
+				<input
+					type="text"
+					value={pathData}
+					onChange={(event) => setPathData(event.target.value)}
+					placeholder="or paste path data"
+					className="w-36 px-2 py-0.5 border-[1px] border-black rounded-full text-xs font-mono"
+					aria-label="SVG path data"
+				/>
+				<NeubrutalistButton size="sm" onClick={handleAddPath} disabled={pathData.trim() === ''}>
+					ADD
+				</NeubrutalistButton>
+			</div>
+
+			<input
+				ref={fileInputRef}
+				type="file"
+				accept="image/svg+xml,.svg"
+				className="hidden"
+				onChange={handleFileChange}
+			/>
+
+			{error && (
+				<p role="alert" className="px-3 py-1 bg-[#FF0080] border-[1px] border-black text-xs font-bold">
+					{error}
+				</p>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,46 @@
+/**
+ * EXPLAINER: Tool Palette
+ *
+ * Picks what a press on the canvas does (lib/tools.ts). The choice
+ * lives in the settings store (settings.tool), so the palette, the
+ * canvas and the console always agree:
+ * updateSettings({ tool: 'explode' })
+ *
+ * The active tool is highlighted, and its one-line description is
+ * shown next to the palette.
+ *
+ * CHALLENGE: Add keyboard shortcuts (G for grab, E for erase...) like
+ * the ones in components/transport-controls.tsx.
+ */
+
+'use client'
+
+import { useSettings } from '@/hooks/use-settings'
+import { updateSettings } from '@/lib/settings-store'
+import { TOOLS } from '@/lib/tools'
+import { NeubrutalistSegmented } from '@/components/neubrutalist-segmented'
+
+const TOOL_OPTIONS = TOOLS.map((info) => ({ value: info.name, label: info.label, description: info.description }))
+
+export function ToolPalette() {
+	const { tool } = useSettings()
+	const activeTool = TOOLS.find((info) => info.name === tool)
+
+	return (
+		<div className="fixed top-1/2 right-8 -translate-y-1/2 z-10 flex items-center gap-2">
+			{activeTool && (
+				<p role="status" className="px-3 py-1 bg-white border-[1px] border-black text-xs font-bold">
+					{activeTool.description}
+				</p>
+			)}
+
+			<NeubrutalistSegmented
+				label="Tool"
+				options={TOOL_OPTIONS}
+				value={tool}
+				onChange={(name) => updateSettings({ tool: name })}
+				orientation="vertical"
+			/>
+		</div>
+	)
+}
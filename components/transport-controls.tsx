@@ -0,0 +1,130 @@
+/**
+ * EXPLAINER: Transport Controls
+ *
+ * Like the buttons on a video player, but for live physics:
+ * - Pause / resume the simulation          [Space]
+ * - Advance exactly one fixed step         [. or →]
+ * - Slow motion / fast forward presets     [1] 0.1x  [2] 0.5x  [3] 1x  [4] 2x
+ *
+ * The shortcuts stay quiet while you type in a field, and while a
+ * picker or stepper has focus (the arrow keys are theirs then).
+ *
+ * Time scale presets write to the settings store, which sets
+ * engine.timing.timeScale - the same value as the settings panel slider.
+ *
+ * CHALLENGE: Spawn shapes, press 1 for 0.1x, then pause and step
+ * frame by frame right before two shapes collide. What do you notice
+ * about how far they overlap before being pushed apart?
+ */
+
+'use client'
+
+import { useEffect } from 'react'
+import { useSettings } from '@/hooks/use-settings'
+import { updateSettings } from '@/lib/settings-store'
+import { isTypingTarget } from '@/lib/keyboard'
+import { NeubrutalistButton } from '@/components/neubrutalist-button'
+
+interface TransportControlsProps {
+	isPaused: boolean
+	onPausedChange: (paused: boolean) => void
+	onStep: () => void
+	/**
+	 * Disable controls (and shortcuts) e.g. while a replay is showing
+	 */
+	disabled?: boolean
+}
+
+/**
+ * Preset time scales with their keyboard shortcut
+ */
+const TIME_SCALE_PRESETS = [
+	{ key: '1', timeScale: 0.1 },
+	{ key: '2', timeScale: 0.5 },
+	{ key: '3', timeScale: 1 },
+	{ key: '4', timeScale: 2 },
+] as const
+
+/**
+ * Arrow keys and Home / End already mean something inside these:
+ * they pick a pill or step a number
+ */
+function isArrowKeyWidget(target: EventTarget | null): boolean {
+	return target instanceof Element && target.closest('[role=radiogroup], [role=spinbutton]') !== null
+}
+
+export function TransportControls({ isPaused, onPausedChange, onStep, disabled = false }: TransportControlsProps) {
+	const { timeScale } = useSettings()
+
+	/**
+	 * Keyboard shortcuts
+	 */
+	useEffect(() => {
+		if (disabled) return
+
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (event.metaKey || event.ctrlKey || event.altKey || isTypingTarget(event.target)) return
+			// Already handled by the focused control (e.g. a segmented picker)
+			if (event.defaultPrevented || isArrowKeyWidget(event.target)) return
+
+			if (event.key === ' ') {
+				event.preventDefault()
+				onPausedChange(!isPaused)
+				return
+			}
+
+			if (event.key === '.' || event.key === 'ArrowRight') {
+				event.preventDefault()
+				onStep()
+				return
+			}
+
+			const preset = TIME_SCALE_PRESETS.find(({ key }) => key === event.key)
+			if (preset) {
+				updateSettings({ timeScale: preset.timeScale })
+			}
+		}
+
+		window.addEventListener('keydown', handleKeyDown)
+		return () => window.removeEventListener('keydown', handleKeyDown)
+	}, [disabled, isPaused, onPausedChange, onStep])
+
+	return (
+		<div className="fixed top-8 left-8 z-10 flex items-center gap-2" role="group" aria-label="Simulation transport">
+			<NeubrutalistButton
+				onClick={() => onPausedChange(!isPaused)}
+				disabled={disabled}
+				accent={isPaused}
+				aria-pressed={isPaused}
+				aria-keyshortcuts="Space"
+				title="Pause / resume (Space)"
+			>
+				{isPaused ? '▶ PLAY' : '❚❚ PAUSE'}
+			</NeubrutalistButton>
+
+			<NeubrutalistButton
+				onClick={onStep}
+				disabled={disabled}
+				aria-label="Step one frame"
+				aria-keyshortcuts=". ArrowRight"
+				title="Step one frame (. or →)"
+			>
+				STEP ⏭
+			</NeubrutalistButton>
+
+			{TIME_SCALE_PRESETS.map((preset) => (
+				<NeubrutalistButton
+					key={preset.key}
+					onClick={() => updateSettings({ timeScale: preset.timeScale })}
+					disabled={disabled}
+					accent={timeScale === preset.timeScale}
+					aria-pressed={timeScale === preset.timeScale}
+					aria-keyshortcuts={preset.key}
+					title={`${preset.timeScale}x speed (${preset.key})`}
+				>
+					{preset.timeScale}x
+				</NeubrutalistButton>
+			))}
+		</div>
+	)
+}
@@ -0,0 +1,48 @@
+/**
+ * EXPLAINER: Placing Things with a Click
+ *
+ * Force fields, gravity wells and zones are placed by pressing on the
+ * canvas. That press must not also reach the active tool (lib/tools.ts)
+ * - the explode tool would blast the spot you just picked.
+ *
+ * So while placing, we listen on the window in the CAPTURE phase: it
+ * sees the pointerdown before the canvas does, hands the point over
+ * and stops the event right there. Escape cancels.
+ */
+
+'use client'
+
+import { useEffect } from 'react'
+import type Matter from 'matter-js'
+
+export function useCanvasPlacement(
+  canvasRef: React.RefObject<HTMLCanvasElement | null>,
+  isPlacing: boolean,
+  onPlace: (point: Matter.Vector) => void,
+  onCancel: () => void
+) {
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!isPlacing || !canvas) return
+
+    const handlePointerDown = (event: PointerEvent) => {
+      // Left button, touch or pen only
+      if (event.target !== canvas || event.button !== 0) return
+
+      event.stopPropagation()
+      onPlace({ x: event.offsetX, y: event.offsetY })
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel()
+    }
+
+    window.addEventListener('pointerdown', handlePointerDown, { capture: true })
+    window.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown, { capture: true })
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [canvasRef, isPlacing, onPlace, onCancel])
+}
@@ -1,13 +1,12 @@
 /**
  * EXPLAINER: The Matter.js Physics Hook
  *
- * This hook manages the entire physics simulation lifecycle:
- * 1. Creates the physics engine
- * 2. Sets up the world (container for all bodies)
- * 3. Creates static boundaries (walls)
- * 4. Adds mouse interaction
- * 5. Runs the simulation loop
- * 6. Cleans up when component unmounts
+ * This hook is a thin React adapter around PhysicsWorld
+ * (lib/physics-world.ts), the headless physics core:
+ * 1. Creates a PhysicsWorld (engine + walls) for the canvas size
+ * 2. Adds pointer interaction (tools, multi-touch dragging)
+ * 3. Runs the simulation loop with a Matter.Runner
+ * 4. Cleans up when component unmounts
  *
  * CHALLENGE 1A: After implementing, console.log the engine
  * Inspect: engine.timing, engine.gravity, engine.world
@@ -20,11 +19,19 @@
 
 'use client'
 
-import { useEffect, useRef } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import Matter from 'matter-js'
-import { PHYSICS_CONFIG, SLEEPING_CONFIG, CULLING_CONFIG } from '@/lib/matter-config'
-
-const { Engine, World, Bodies, Events } = Matter
+import { PhysicsWorld } from '@/lib/physics-world'
+import { BodyLifecycleManager, createLifecyclePolicies } from '@/lib/body-lifecycle'
+import { EmitterManager } from '@/lib/emitters'
+import { ForceFieldManager } from '@/lib/force-fields'
+import { GravityManager } from '@/lib/gravity'
+import { ObstacleManager } from '@/lib/obstacles'
+import { PerfMonitor } from '@/lib/perf-monitor'
+import { getSettings, subscribeSettings } from '@/lib/settings-store'
+import { ToolController } from '@/lib/tools'
+
+const { Events } = Matter
 
 /**
  * EXPLAINER: What is an Engine?
@@ -67,51 +74,115 @@ export interface UseMatterOptions {
   width: number
   height: number
   onCollision?: (event: Matter.IEventCollision<Matter.Engine>) => void
+  /**
+   * Called after every engine update (e.g. to record frames).
+   * Keep it stable with useCallback - changing it rebuilds the world.
+   */
+  onAfterUpdate?: (engine: Matter.Engine) => void
 }
 
-export function useMatter({ canvasRef, width, height, onCollision }: UseMatterOptions) {
-  const engineRef = useRef<Matter.Engine | null>(null)
+export function useMatter({
+  canvasRef,
+  width,
+  height,
+  onCollision,
+  onAfterUpdate,
+}: UseMatterOptions) {
+  const physicsRef = useRef<PhysicsWorld | null>(null)
   const runnerRef = useRef<Matter.Runner | null>(null)
-  const mouseConstraintRef = useRef<Matter.MouseConstraint | null>(null)
+  const toolsRef = useRef<ToolController | null>(null)
+
+  // Lifecycle policies outlive world rebuilds, so removal totals keep counting
+  const [lifecycle] = useState(() => new BodyLifecycleManager())
+
+  // Running emitters carry on in the new world after a rebuild
+  const [emitters] = useState(() => new EmitterManager())
+
+  // Attractors, wind... stay where they were placed across rebuilds
+  const [forceFields] = useState(() => new ForceFieldManager())
+
+  // Gravity mode, wells and zones (also kept across rebuilds)
+  const [gravity] = useState(() => new GravityManager())
+
+  // Lines, ramps, platforms and pegs the user built (re-added after a rebuild)
+  const [obstacles] = useState(() => new ObstacleManager())
+
+  // Frame and step timings for the performance HUD (also survives rebuilds)
+  const [perf] = useState(() => new PerfMonitor())
+
+  // Paused state: the ref survives world rebuilds, the state drives the UI
+  const pausedRef = useRef(false)
+  const [isPaused, setIsPaused] = useState(false)
+
+  /**
+   * EXPLAINER: Resizing
+   *
+   * A new width / height must NOT rebuild the world - that would throw
+   * away every shape. Instead PhysicsWorld moves its walls and clamps
+   * bodies back inside (see PhysicsWorld.resize).
+   *
+   * The latest size also goes into a ref, so the effect below can read
+   * it when it first creates the world without depending on it.
+   */
+  const sizeRef = useRef({ width, height })
+  const hasSize = width > 0 && height > 0
+
+  useEffect(() => {
+    sizeRef.current = { width, height }
+
+    if (width > 0 && height > 0) {
+      physicsRef.current?.resize(width, height)
+    }
+  }, [width, height])
 
   useEffect(() => {
     const canvas = canvasRef.current
     if (!canvas) return
 
-	// Use provided dimensions
-	if (width === 0 || height === 0) {
-		return // Wait for real dimensions
-	}
+    // Wait for real dimensions
+    if (!hasSize) return
 
-	console.log('✅ Physics initializing:', { width, height })
+    const { width, height } = sizeRef.current
+    console.log('✅ Physics initializing:', { width, height })
 
     /**
-     * EXPLAINER: Engine Creation
+     * EXPLAINER: Headless Core
+     *
+     * Engine creation, walls and stepping live in PhysicsWorld
+     * (lib/physics-world.ts) - plain TypeScript with no React or DOM.
+     * This hook only adds the browser parts: the Runner loop, pointer
+     * interaction and React lifecycle.
      *
-     * We pass configuration to control physics behavior:
-     * - gravity: How strong is the pull downward
-     * - enableSleeping: Should bodies at rest stop calculating?
-     * - positionIterations: How accurate should collision resolution be?
+     * Gravity, time scale, iterations and sleeping come from the live
+     * settings store, and follow the settings panel while running.
      *
-     * CHALLENGE 1A: Try different gravity values!
+     * CHALLENGE 1A: Try different gravity values in the settings panel!
      * { x: 0, y: 2 } - double gravity (falls faster)
      * { x: 0.5, y: 1 } - horizontal wind + gravity
      * { x: 0, y: 0 } - zero gravity (space!)
      */
-    const engine = Engine.create({
-      gravity: { x: 0, y: 0.5 },
-      enableSleeping: PHYSICS_CONFIG.enableSleeping,
-      positionIterations: PHYSICS_CONFIG.positionIterations,
-      velocityIterations: PHYSICS_CONFIG.velocityIterations,
+    const physics = PhysicsWorld.create({ width, height, ...getSettings() })
+    const engine = physics.engine
+
+    // Attached first: its 'beforeUpdate' runs before the force field and
+    // gravity ones, so the step time includes their forces - and its
+    // 'afterUpdate' runs before the lifecycle, emitter and recorder ones,
+    // so it leaves those out
+    perf.attach(engine)
+
+    const unsubscribeSettings = subscribeSettings((settings) => {
+      physics.configure(settings)
+      tools.setTool(settings.tool)
+      lifecycle.setPolicies(createLifecyclePolicies(settings.lifecycle))
     })
 
     /**
      * EXPLAINER: Sleeping Configuration
      *
      * When enableSleeping is true, Matter.js automatically manages
-     * sleeping bodies based on the engine's default thresholds.
+     * sleeping bodies. PhysicsWorld gives every body the
+     * sleepThreshold from the settings (60 frames = 1 second by default).
      *
-     * Bodies will sleep after being still for about 60 frames (1 second).
      * You can see sleeping bodies with body.isSleeping
      */
 
@@ -122,135 +193,37 @@ export function useMatter({ canvasRef, width, height, onCollision }: UseMatterOp
      * It uses requestAnimationFrame internally for smooth 60 FPS.
      *
      * Alternative: You can run the engine manually in your own loop
-     * with Engine.update(engine, delta)
+     * with physics.step(delta) - that's how Node scripts and tests do it.
      */
-    const runner = Matter.Runner.create()
+    const runner = Matter.Runner.create({ enabled: !pausedRef.current })
     Matter.Runner.run(runner, engine)
 
     /**
-     * CHALLENGE 1B: Static vs Dynamic Bodies
-     *
-     * Static bodies don't move. They're like immovable objects.
-     * - isStatic: true means infinite mass
-     * - They don't respond to gravity or forces
-     * - Perfect for walls, floors, platforms
-     *
-     * Dynamic bodies move and respond to everything.
-     * - isStatic: false (default)
-     * - Affected by gravity, forces, collisions
-     *
-     * EXPERIMENT: What happens if you remove isStatic: true from the floor?
-     * Answer: The floor will fall due to gravity!
-     *
-     * Docs: https://brm.io/matter-js/docs/classes/Body.html#property_isStatic
-     */
-
-    // Create boundaries (static bodies that don't move)
-    const wallThickness = 50
-
-    /**
-     * IMPORTANT FIX: Floor Position
-     *
-     * The floor should be AT the bottom of the screen, not below it!
-     * - y: height - wallThickness / 2 puts the TOP of the floor at screen bottom
-     * - This lets shapes land visibly before being culled
-     */
-    const floor = Bodies.rectangle(width / 2, height - wallThickness / 2, width, wallThickness, {
-      isStatic: true,
-      label: 'floor',
-      render: {
-        fillStyle: 'transparent',
-      },
-    })
-
-    // DEBUG: Log floor position
-    console.log('🏢 Floor created at y:', height - wallThickness / 2, 'height:', height)
-
-    const leftWall = Bodies.rectangle(-wallThickness / 2, height / 2, wallThickness, height, {
-      isStatic: true,
-      label: 'leftWall',
-      render: {
-        fillStyle: 'transparent',
-      },
-    })
-
-    const rightWall = Bodies.rectangle(
-      width + wallThickness / 2,
-      height / 2,
-      wallThickness,
-      height,
-      {
-        isStatic: true,
-        label: 'rightWall',
-        render: {
-          fillStyle: 'transparent',
-        },
-      }
-    )
-
-    // Add walls to world
-    World.add(engine.world, [floor, leftWall, rightWall])
-
-    /**
-     * EXPLAINER: Mouse Constraint
+     * EXPLAINER: Tools (Multi-touch)
      *
-     * MouseConstraint lets you interact with physics bodies!
-     * It creates an invisible "spring" between the mouse and clicked bodies.
+     * What a press on the canvas does depends on the tool picked in the
+     * tool palette (lib/tools.ts): grab, flick, explode, erase, freeze,
+     * spawn, build or draw. A ToolController listens to the pointer events and hands
+     * them to the active tool - every pointer (each finger, the mouse, a
+     * pen) separately.
      *
-     * How it works:
-     * 1. Click on a body
-     * 2. MouseConstraint attaches to it
-     * 3. Move your mouse
-     * 4. The body follows via spring force
-     * 5. Release to let it go
+     * The grab tool uses a PointerDragController (lib/pointer-drag.ts),
+     * which gives every pointer its own invisible "spring":
+     * 1. Press on a body (with as many fingers as you like)
+     * 2. A spring attaches each pointer to the spot it grabbed
+     * 3. Move - each body follows its own pointer
+     * 4. Release - the body is thrown with that pointer's speed
      *
-     * CHALLENGE 3A: Test mouse interaction
+     * CHALLENGE 3A: Test pointer interaction
      * - Can you drag shapes?
      * - What happens if you fling them?
      * - Try adjusting stiffness (0.01 = loose spring, 0.1 = tight spring)
      *
-     * Docs: https://brm.io/matter-js/docs/classes/MouseConstraint.html
+     * Docs: https://developer.mozilla.org/en-US/docs/Web/API/Pointer_events
      */
-    const mouse = Matter.Mouse.create(canvas)
-    const mouseConstraint = Matter.MouseConstraint.create(engine, {
-      mouse: mouse,
-      constraint: {
-        stiffness: 0.05, // Spring stiffness (0-1)
-        render: {
-          visible: false, // Hide the constraint line
-        },
-      },
-    })
-
-    World.add(engine.world, mouseConstraint)
-
-    /**
-     * CHALLENGE 3B: Click to Bounce
-     *
-     * We can detect mouse clicks and apply forces to bodies.
-     * This creates a "bounce" effect when clicking shapes.
-     *
-     * Body.applyForce(body, position, force)
-     * - body: the body to apply force to
-     * - position: where on the body to apply it (affects rotation!)
-     * - force: vector { x, y } of force magnitude
-     *
-     * EXPERIMENT:
-     * - Try different force magnitudes: { x: 0, y: -0.01 } vs { x: 0, y: -0.1 }
-     * - Apply force at body.position vs a corner
-     * - What happens with horizontal force? { x: 0.05, y: 0 }
-     *
-     * Docs: https://brm.io/matter-js/docs/classes/Body.html#method_applyForce
-     */
-    const handleMouseClick = () => {
-      const body = mouseConstraint.body
-      if (body && !body.isStatic) {
-        // Apply upward force for bounce effect
-        Matter.Body.applyForce(body, body.position, { x: 0, y: -0.05 })
-      }
-    }
-
-    canvas.addEventListener('click', handleMouseClick)
+    const tools = new ToolController(physics, obstacles, { stiffness: 0.05 })
+    tools.setTool(getSettings().tool)
+    tools.attach(canvas)
 
     /**
      * EXPLAINER: Collision Events
@@ -273,53 +246,37 @@ export function useMatter({ canvasRef, width, height, onCollision }: UseMatterOp
     }
 
     /**
-     * EXPLAINER: Off-screen Culling (Performance Optimization)
-     *
-     * Bodies that fall below the screen should be removed.
-     * Otherwise, they keep simulating forever = memory leak!
-     *
-     * We check every frame and remove bodies that are too far down.
+     * EXPLAINER: Body Lifecycle (Performance Optimization)
      *
-     * CHALLENGE 5C: Why add a buffer zone?
-     * - If we remove at exact screen height, shapes disappear while visible
-     * - Buffer lets them smoothly exit before removal
-     * - Try removing the buffer and see shapes pop out of existence!
+     * Bodies that fall off-screen, pile up past the limit, or sit around
+     * too long are removed by lifecycle policies (lib/body-lifecycle.ts).
+     * The policies follow the "Cleanup" section of the settings panel.
      */
-    const cullOffscreenBodies = () => {
-      const bodiesToRemove: Matter.Body[] = []
-
-      engine.world.bodies.forEach((body) => {
-        // Don't remove static bodies (walls)
-        const cullThreshold = height + CULLING_CONFIG.bufferZone
-        if (!body.isStatic && body.position.y > cullThreshold) {
-          bodiesToRemove.push(body)
-        }
-      })
-
-      if (bodiesToRemove.length > 0) {
-        World.remove(engine.world, bodiesToRemove)
-        // DEBUG: Log culling
-        console.log(`🗑️ Culled ${bodiesToRemove.length} bodies at threshold:`, height + CULLING_CONFIG.bufferZone)
-      }
-    }
+    lifecycle.attach(physics)
+    lifecycle.setPolicies(createLifecyclePolicies(getSettings().lifecycle))
+
+    // Spawns come from emitters (lib/emitters.ts), stepped with the engine
+    emitters.attach(physics)
+
+    // Force fields push bodies before every update (lib/force-fields.ts)
+    forceFields.attach(physics)
+
+    // Planetary gravity and gravity zones correct the engine's gravity (lib/gravity.ts)
+    gravity.attach(physics)
+
+    // Static scenery drawn with the build tool (lib/obstacles.ts)
+    obstacles.attach(physics)
 
-    // Run culling check every 60 frames (about 1 second)
-    let frameCount = 0
     const afterUpdate = () => {
-      frameCount++
-      if (frameCount >= 60) {
-        // TEMPORARILY DISABLED for debugging
-        // cullOffscreenBodies()
-        frameCount = 0
-      }
+      onAfterUpdate?.(engine)
     }
 
     Events.on(engine, 'afterUpdate', afterUpdate)
 
     // Store references for cleanup
-    engineRef.current = engine
+    physicsRef.current = physics
     runnerRef.current = runner
-    mouseConstraintRef.current = mouseConstraint
+    toolsRef.current = tools
 
     /**
      * EXPLAINER: Cleanup (CRITICAL!)
@@ -339,22 +296,28 @@ export function useMatter({ canvasRef, width, height, onCollision }: UseMatterOp
      */
     return () => {
       // Remove event listeners
-      canvas.removeEventListener('click', handleMouseClick)
+      tools.detach()
       if (onCollision) {
         Events.off(engine, 'collisionStart', onCollision)
       }
       Events.off(engine, 'afterUpdate', afterUpdate)
+      unsubscribeSettings()
+      lifecycle.detach()
+      emitters.detach()
+      forceFields.detach()
+      gravity.detach()
+      obstacles.detach()
+      perf.detach()
 
       // Stop the runner
       Matter.Runner.stop(runner)
 
-      // Clear the world
-      World.clear(engine.world, false)
-
-      // Clear the engine
-      Engine.clear(engine)
+      // Clear the world and the engine
+      physics.destroy()
+      physicsRef.current = null
+      toolsRef.current = null
     }
-  }, [canvasRef, width, height, onCollision])
+  }, [canvasRef, hasSize, onCollision, onAfterUpdate, lifecycle, emitters, forceFields, gravity, obstacles, perf])
 
   /**
    * EXPLAINER: Adding Bodies to the World
@@ -364,12 +327,28 @@ export function useMatter({ canvasRef, width, height, onCollision }: UseMatterOp
    *
    * World.add() is how you introduce new bodies into the simulation.
    * After adding, they immediately start responding to physics!
+   *
+   * Like every function returned below, it's wrapped in useCallback so
+   * its identity never changes - effects that depend on it won't re-run
+   * just because this component re-rendered.
    */
-  const addBody = (body: Matter.Body) => {
-    if (engineRef.current) {
-      World.add(engineRef.current.world, body)
-    }
-  }
+  const addBody = useCallback((body: Matter.Body) => {
+    physicsRef.current?.addBody(body)
+  }, [])
+
+  /**
+   * Add a composite (chain, rope, ragdoll...) - see PhysicsWorld.addComposite
+   */
+  const addComposite = useCallback((composite: Matter.Composite) => {
+    physicsRef.current?.addComposite(composite)
+  }, [])
+
+  /**
+   * Remove a body from the world (e.g. before loading a saved scene)
+   */
+  const removeBody = useCallback((body: Matter.Body) => {
+    physicsRef.current?.removeBody(body)
+  }, [])
 
   /**
    * EXPLAINER: Accessing the World
@@ -385,7 +364,7 @@ export function useMatter({ canvasRef, width, height, onCollision }: UseMatterOp
    * const awake = world.bodies.filter(b => !b.isSleeping).length
    * console.log(`Sleeping: ${sleeping}, Awake: ${awake}`)
    */
-  const getWorld = () => engineRef.current?.world
+  const getWorld = useCallback(() => physicsRef.current?.world, [])
 
   /**
    * EXPLAINER: Accessing the Engine
@@ -399,12 +378,66 @@ export function useMatter({ canvasRef, width, height, onCollision }: UseMatterOp
    * const fps = 1000 / engine.timing.lastDelta
    * console.log(`FPS: ${Math.round(fps)}`)
    */
-  const getEngine = () => engineRef.current
+  const getEngine = useCallback(() => physicsRef.current?.engine, [])
+
+  /**
+   * The headless core itself (boundaries, stepping)
+   */
+  const getPhysicsWorld = useCallback(() => physicsRef.current, [])
+
+  /**
+   * Expose the runner so callers can pause it (runner.enabled = false)
+   */
+  const getRunner = useCallback(() => runnerRef.current, [])
+
+  /**
+   * The tools of the current world (the canvas draws their overlay)
+   */
+  const getTools = useCallback(() => toolsRef.current, [])
+
+  /**
+   * EXPLAINER: Transport Controls (Pause / Step)
+   *
+   * runner.enabled = false keeps the Runner's frame loop alive but
+   * skips every engine update - the world freezes in place.
+   *
+   * While paused, step() advances exactly ONE fixed update of
+   * runner.delta ms (1000 / 60 by default). Engine.update still
+   * applies engine.timing.timeScale, so stepping at 0.1x moves
+   * bodies a tenth as far - perfect for studying a collision.
+   */
+  const setPaused = useCallback((paused: boolean) => {
+    pausedRef.current = paused
+    setIsPaused(paused)
+
+    if (runnerRef.current) {
+      runnerRef.current.enabled = !paused
+    }
+  }, [])
+
+  const step = useCallback(() => {
+    if (!pausedRef.current) setPaused(true)
+    physicsRef.current?.step(runnerRef.current?.delta)
+  }, [setPaused])
 
   return {
     addBody,
+    addComposite,
+    removeBody,
     getWorld,
     getEngine,
+    getRunner,
+    getPhysicsWorld,
+    getTools,
+    isPaused,
+    setPaused,
+    step,
+    lifecycle,
+    emitters,
+    forceFields,
+    gravity,
+    obstacles,
+    perf,
   }
 }
 
@@ -414,7 +447,7 @@ export function useMatter({ canvasRef, width, height, onCollision }: UseMatterOp
  * At this point, you should understand:
  * ✓ What an Engine is and how it runs
  * ✓ The difference between static and dynamic bodies
- * ✓ How mouse constraints work
+ * ✓ How drag constraints work (one per pointer)
  * ✓ Why cleanup is critical
  * ✓ How to add bodies to the world
  *
@@ -424,15 +457,15 @@ export function useMatter({ canvasRef, width, height, onCollision }: UseMatterOp
  * 2. World: Container for all bodies
  * 3. Static bodies: Don't move (walls, floors)
  * 4. Dynamic bodies: Move and respond to physics
- * 5. Mouse constraint: Lets you drag bodies
+ * 5. Drag constraints: Let you drag bodies, one per finger
  * 6. Events: Callbacks for collisions and updates
  * 7. Cleanup: Stop loops and remove listeners on unmount
  *
  * NEXT CHALLENGES:
  * - Challenge 1A: Experiment with gravity values
  * - Challenge 1B: Try removing isStatic from walls
- * - Challenge 3A: Test mouse dragging
- * - Challenge 3B: Implement click-to-bounce
+ * - Challenge 3A: Test pointer dragging
+ * - Challenge 3B: Try every tool in the tool palette
  * - Challenge 5C: Add console logs to see culling
  *
  * DEBUGGING TIPS:
@@ -0,0 +1,18 @@
+/**
+ * EXPLAINER: Reading Settings in React
+ *
+ * useSyncExternalStore connects React to a store that lives outside
+ * React (lib/settings-store.ts). The component re-renders whenever
+ * the settings change - from the panel, the console or anywhere else.
+ *
+ * Docs: https://react.dev/reference/react/useSyncExternalStore
+ */
+
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { getSettings, subscribeSettings } from '@/lib/settings-store'
+
+export function useSettings() {
+  return useSyncExternalStore(subscribeSettings, getSettings, getSettings)
+}
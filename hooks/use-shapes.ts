@@ -0,0 +1,16 @@
+/**
+ * EXPLAINER: Reading the Shape Registry in React
+ *
+ * Same idea as useSettings: useSyncExternalStore re-renders the
+ * component whenever a shape is registered, removed, re-weighted or
+ * switched on/off (lib/shape-registry.ts).
+ */
+
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { getShapes, subscribeShapes } from '@/lib/shape-registry'
+
+export function useShapes() {
+  return useSyncExternalStore(subscribeShapes, getShapes, getShapes)
+}
@@ -0,0 +1,294 @@
+/**
+ * EXPLAINER: Body Lifecycle Policies
+ *
+ * Every spawn adds dozens of bodies. Without cleanup they pile up forever,
+ * and the simulation gets slower with every click (memory leak!).
+ *
+ * A lifecycle POLICY is one rule for removing bodies:
+ * - Off-screen culling: fell far below the screen
+ * - Max body count: too many bodies → remove the oldest first (FIFO)
+ * - Time to live: every body expires after N seconds
+ * - Sleep timeout: asleep for too long → nobody is playing with it
+ *
+ * Policies are composable: the BodyLifecycleManager runs them in order,
+ * removes what they pick, and fires a 'bodiesRemoved' event per policy
+ * so the UI can show counts.
+ *
+ * Time is SIMULATION time (engine.timing.timestamp), so pausing or
+ * slow motion also slows down aging.
+ *
+ * CHALLENGE: Write your own policy! Ideas:
+ * - Remove bodies that left the screen sideways
+ * - Remove the smallest bodies first
+ */
+
+import Matter from 'matter-js'
+import { CULLING_CONFIG } from './matter-config'
+import type { PhysicsWorld } from './physics-world'
+
+const { Events } = Matter
+
+/**
+ * What the manager knows about each body
+ */
+export interface BodyRecord {
+  /** Simulation time (ms) when the body was added */
+  addedAt: number
+  /** Simulation time (ms) when the body fell asleep, null while awake */
+  sleepingSince: number | null
+}
+
+export interface LifecycleContext {
+  /** Current simulation time (ms) */
+  now: number
+  /** Size of the visible area */
+  width: number
+  height: number
+  getRecord: (body: Matter.Body) => BodyRecord
+}
+
+export interface LifecyclePolicy {
+  /** Shown in the UI and sent with every event */
+  name: string
+  /** Pick the bodies this policy wants removed */
+  collect: (bodies: Matter.Body[], context: LifecycleContext) => Matter.Body[]
+}
+
+/**
+ * Fired on the manager every time a policy removes bodies
+ */
+export interface BodiesRemovedEvent {
+  policy: string
+  bodies: Matter.Body[]
+  /** Running total of bodies removed by this policy */
+  total: number
+}
+
+/**
+ * EXPLAINER: Off-screen Culling (Performance Optimization)
+ *
+ * Bodies that fall below the screen should be removed.
+ * Otherwise, they keep simulating forever = memory leak!
+ *
+ * CHALLENGE 5C: Why add a buffer zone?
+ * - If we remove at exact screen height, shapes disappear while visible
+ * - Buffer lets them smoothly exit before removal
+ * - Try removing the buffer and see shapes pop out of existence!
+ */
+export function createOffscreenCullPolicy(
+  bufferZone: number = CULLING_CONFIG.bufferZone
+): LifecyclePolicy {
+  return {
+    name: 'culled',
+    collect: (bodies, { height }) =>
+      bodies.filter((body) => body.position.y > height + bufferZone),
+  }
+}
+
+/**
+ * Keep at most `maxBodies` - evict the oldest first (FIFO)
+ */
+export function createMaxBodiesPolicy(maxBodies: number): LifecyclePolicy {
+  return {
+    name: 'evicted',
+    collect: (bodies, { getRecord }) => {
+      const excess = bodies.length - maxBodies
+      if (excess <= 0) return []
+
+      return [...bodies]
+        .sort((a, b) => getRecord(a).addedAt - getRecord(b).addedAt)
+        .slice(0, excess)
+    },
+  }
+}
+
+/**
+ * Remove bodies older than `timeToLive` ms
+ */
+export function createTimeToLivePolicy(timeToLive: number): LifecyclePolicy {
+  return {
+    name: 'expired',
+    collect: (bodies, { now, getRecord }) =>
+      bodies.filter((body) => now - getRecord(body).addedAt > timeToLive),
+  }
+}
+
+/**
+ * Remove bodies that have been asleep for longer than `maxSleepTime` ms
+ */
+export function createSleepTimeoutPolicy(maxSleepTime: number): LifecyclePolicy {
+  return {
+    name: 'slept out',
+    collect: (bodies, { now, getRecord }) =>
+      bodies.filter((body) => {
+        const { sleepingSince } = getRecord(body)
+        return sleepingSince !== null && now - sleepingSince > maxSleepTime
+      }),
+  }
+}
+
+/**
+ * Simple on/off + numbers description of the standard policies
+ * (0 turns a numeric policy off)
+ */
+export interface LifecycleOptions {
+  cullOffscreen: boolean
+  maxBodies: number
+  /** Seconds */
+  timeToLive: number
+  /** Seconds */
+  sleepTimeout: number
+}
+
+/**
+ * Build the standard policy list from options
+ */
+export function createLifecyclePolicies(options: LifecycleOptions): LifecyclePolicy[] {
+  const policies: LifecyclePolicy[] = []
+
+  if (options.cullOffscreen) policies.push(createOffscreenCullPolicy())
+  if (options.timeToLive > 0) policies.push(createTimeToLivePolicy(options.timeToLive * 1000))
+  if (options.sleepTimeout > 0) policies.push(createSleepTimeoutPolicy(options.sleepTimeout * 1000))
+  // Last, so bodies already removed above don't count towards the cap
+  if (options.maxBodies > 0) policies.push(createMaxBodiesPolicy(options.maxBodies))
+
+  return policies
+}
+
+/**
+ * Runs lifecycle policies against a PhysicsWorld
+ *
+ * Survives world rebuilds: attach() to a new world and the removal
+ * totals keep counting.
+ *
+ * Events (listen with Matter.Events.on(manager, ...)):
+ * - 'bodiesRemoved': BodiesRemovedEvent
+ */
+export class BodyLifecycleManager {
+  private physics: PhysicsWorld | null = null
+  private policies: LifecyclePolicy[]
+  private records = new Map<number, BodyRecord>()
+  private totals = new Map<string, number>()
+  private updatesSinceRun = 0
+
+  /**
+   * @param policies Policies to run, in order
+   * @param interval Run policies every N engine updates (60 ≈ once per second)
+   */
+  constructor(policies: LifecyclePolicy[] = [], private readonly interval: number = 30) {
+    this.policies = policies
+  }
+
+  /**
+   * Start watching a world (detaches from the previous one)
+   */
+  attach(physics: PhysicsWorld) {
+    this.detach()
+    this.physics = physics
+
+    Events.on(physics.engine, 'afterUpdate', this.handleAfterUpdate)
+    Events.on(physics.world, 'afterRemove', this.handleAfterRemove)
+  }
+
+  detach() {
+    if (!this.physics) return
+
+    Events.off(this.physics.engine, 'afterUpdate', this.handleAfterUpdate)
+    Events.off(this.physics.world, 'afterRemove', this.handleAfterRemove)
+
+    this.physics = null
+    this.records.clear()
+    this.updatesSinceRun = 0
+  }
+
+  setPolicies(policies: LifecyclePolicy[]) {
+    this.policies = policies
+  }
+
+  /**
+   * Bodies removed so far, per policy name
+   */
+  getTotals(): Record<string, number> {
+    return Object.fromEntries(this.totals)
+  }
+
+  /**
+   * Run every policy right now
+   */
+  run() {
+    const { physics } = this
+    if (!physics) return
+
+    const context: LifecycleContext = {
+      now: physics.engine.timing.timestamp,
+      width: physics.width,
+      height: physics.height,
+      getRecord: (body) => this.getRecord(body),
+    }
+
+    let bodies = physics.getDynamicBodies()
+
+    this.policies.forEach((policy) => {
+      const removed = policy.collect(bodies, context)
+      if (removed.length === 0) return
+
+      physics.removeBody(removed)
+
+      // Later policies only see what's left
+      const removedIds = new Set(removed.map((body) => body.id))
+      bodies = bodies.filter((body) => !removedIds.has(body.id))
+
+      const total = (this.totals.get(policy.name) ?? 0) + removed.length
+      this.totals.set(policy.name, total)
+
+      const event: BodiesRemovedEvent = { policy: policy.name, bodies: removed, total }
+      Events.trigger(this, 'bodiesRemoved', event)
+    })
+  }
+
+  /**
+   * Record for a body, created the first time we see it
+   */
+  private getRecord(body: Matter.Body): BodyRecord {
+    let record = this.records.get(body.id)
+
+    if (!record) {
+      record = { addedAt: this.physics?.engine.timing.timestamp ?? 0, sleepingSince: null }
+      this.records.set(body.id, record)
+    }
+
+    return record
+  }
+
+  private handleAfterUpdate = () => {
+    const physics = this.physics
+    if (!physics) return
+
+    const now = physics.engine.timing.timestamp
+
+    // Track when bodies start sleeping (every update, so it's accurate)
+    physics.getDynamicBodies().forEach((body) => {
+      const record = this.getRecord(body)
+
+      if (!body.isSleeping) {
+        record.sleepingSince = null
+      } else if (record.sleepingSince === null) {
+        record.sleepingSince = now
+      }
+    })
+
+    this.updatesSinceRun++
+    if (this.updatesSinceRun >= this.interval) {
+      this.updatesSinceRun = 0
+      this.run()
+    }
+  }
+
+  private handleAfterRemove = (event: { object: unknown }) => {
+    const removed = Array.isArray(event.object) ? event.object : [event.object]
+
+    removed.forEach((item: Matter.Body) => {
+      if (item.type === 'body') this.records.delete(item.id)
+    })
+  }
+}
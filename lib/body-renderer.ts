@@ -0,0 +1,282 @@
+/**
+ * EXPLAINER: Shared Drawing Helpers
+ *
+ * The live render loop and the replay renderer both draw bodies in the
+ * same neubrutalist style. Keeping the style in one place means the
+ * replay looks exactly like the real thing.
+ *
+ * Bodies made from a material preset also get the preset's visual
+ * hints: a pattern over the fill color and its own border width.
+ *
+ * Fills use the even-odd rule, so a ring inside an outline (the hole
+ * of an imported donut icon) stays empty.
+ *
+ * Textured bodies (lib/textures.ts) draw their image between the color
+ * fill and the border, clipped to the shape.
+ */
+
+import type Matter from 'matter-js'
+import { MATERIAL_PRESETS, STYLE_CONFIG } from './matter-config'
+import type { FillPattern, MaterialName } from './materials'
+import { getTextureImage, type BodyTexture } from './textures'
+import type { SerializedShape } from './world-snapshot'
+
+/**
+ * Apply fill, thick border and hard shadow to the canvas context
+ */
+export function applyNeubrutalistStyle(
+  ctx: CanvasRenderingContext2D,
+  fillStyle: string,
+  lineWidth: number = STYLE_CONFIG.lineWidth
+) {
+  ctx.fillStyle = fillStyle
+  ctx.strokeStyle = STYLE_CONFIG.strokeColor
+  ctx.lineWidth = lineWidth
+
+  // Hard shadow (no blur = neubrutalism!)
+  ctx.shadowColor = STYLE_CONFIG.shadowColor
+  ctx.shadowOffsetX = STYLE_CONFIG.shadowOffset
+  ctx.shadowOffsetY = STYLE_CONFIG.shadowOffset
+  ctx.shadowBlur = 0
+}
+
+/**
+ * Border width for a body's material (the default border without one)
+ */
+export function getMaterialLineWidth(material: MaterialName | undefined): number {
+  return material ? MATERIAL_PRESETS[material].lineWidth : STYLE_CONFIG.lineWidth
+}
+
+const PATTERN_TILE_SIZE = 16
+
+/**
+ * Draw one repeating tile of a pattern
+ */
+function drawPatternTile(ctx: CanvasRenderingContext2D, pattern: Exclude<FillPattern, 'none'>) {
+  const size = PATTERN_TILE_SIZE
+
+  switch (pattern) {
+    case 'dots':
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.35)'
+      ctx.beginPath()
+      ctx.arc(4, 4, 1.5, 0, Math.PI * 2)
+      ctx.arc(12, 12, 1.5, 0, Math.PI * 2)
+      ctx.fill()
+      break
+
+    case 'shine':
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)'
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      ctx.moveTo(0, size)
+      ctx.lineTo(size, 0)
+      ctx.stroke()
+      break
+
+    case 'grain':
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.25)'
+      ctx.lineWidth = 1
+      ctx.beginPath()
+      ctx.moveTo(0, 4)
+      ctx.bezierCurveTo(5, 2, 11, 6, size, 4)
+      ctx.moveTo(0, 12)
+      ctx.bezierCurveTo(5, 14, 11, 10, size, 12)
+      ctx.stroke()
+      break
+
+    case 'crosshatch':
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.3)'
+      ctx.lineWidth = 1
+      ctx.beginPath()
+      ctx.moveTo(0, 0)
+      ctx.lineTo(size, size)
+      ctx.moveTo(size, 0)
+      ctx.lineTo(0, size)
+      ctx.stroke()
+      break
+  }
+}
+
+// Patterns are built once, the first time each one is needed
+const patternCache = new Map<FillPattern, CanvasPattern | null>()
+
+function getPattern(ctx: CanvasRenderingContext2D, pattern: FillPattern): CanvasPattern | null {
+  if (pattern === 'none') return null
+
+  if (!patternCache.has(pattern)) {
+    const tile = document.createElement('canvas')
+    tile.width = PATTERN_TILE_SIZE
+    tile.height = PATTERN_TILE_SIZE
+
+    const tileCtx = tile.getContext('2d')
+    if (tileCtx) drawPatternTile(tileCtx, pattern)
+
+    patternCache.set(pattern, ctx.createPattern(tile, 'repeat'))
+  }
+
+  return patternCache.get(pattern) ?? null
+}
+
+/**
+ * Fill the current path with a material's pattern (on top of the color)
+ *
+ * Call it between fill() and stroke(), so the border stays on top.
+ */
+export function fillMaterialPattern(ctx: CanvasRenderingContext2D, material: MaterialName | undefined) {
+  if (!material) return
+
+  const pattern = getPattern(ctx, MATERIAL_PRESETS[material].pattern)
+  if (!pattern) return
+
+  ctx.save()
+  // The shape already cast its shadow
+  ctx.shadowColor = 'transparent'
+  ctx.fillStyle = pattern
+  ctx.fill('evenodd')
+  ctx.restore()
+}
+
+/**
+ * Frost over a frozen body (lib/tools.ts), so it stands out from the
+ * shapes that still move
+ *
+ * Call it between fill() and stroke(), like fillMaterialPattern.
+ */
+export function fillFrozenTint(ctx: CanvasRenderingContext2D) {
+  ctx.save()
+  // The shape already cast its shadow
+  ctx.shadowColor = 'transparent'
+  ctx.fillStyle = 'rgba(200, 235, 255, 0.6)'
+  ctx.fill('evenodd')
+  ctx.restore()
+}
+
+// Image patterns, one per loaded image
+const imagePatternCache = new Map<HTMLImageElement, CanvasPattern | null>()
+
+/**
+ * Draw a texture inside the current path (on top of the color)
+ *
+ * - size: the shape's unrotated width and height (sprites cover it)
+ * - angle: rotation still missing from the canvas transform
+ *
+ * Call it between fill() and stroke(), like fillMaterialPattern.
+ * Does nothing until the image has loaded.
+ */
+export function fillTexture(
+  ctx: CanvasRenderingContext2D,
+  texture: BodyTexture | undefined,
+  size: { width: number; height: number },
+  angle: number = 0
+) {
+  const image = texture && getTextureImage(texture.src)
+  if (!texture || !image) return
+
+  const offset = texture.offset ?? { x: 0, y: 0 }
+
+  ctx.save()
+  // The shape already cast its shadow
+  ctx.shadowColor = 'transparent'
+  ctx.clip('evenodd')
+  ctx.rotate(angle)
+  ctx.translate(offset.x, offset.y)
+
+  if (texture.mode === 'sprite') {
+    // Cover the whole shape unless a scale is given (like CSS background-size: cover)
+    const scale =
+      texture.scale ?? Math.max(size.width / image.naturalWidth, size.height / image.naturalHeight)
+    const width = image.naturalWidth * scale
+    const height = image.naturalHeight * scale
+    ctx.drawImage(image, -width / 2, -height / 2, width, height)
+  } else {
+    if (!imagePatternCache.has(image)) {
+      imagePatternCache.set(image, ctx.createPattern(image, 'repeat'))
+    }
+    const pattern = imagePatternCache.get(image)
+    const scale = texture.scale ?? 1
+
+    if (pattern) {
+      ctx.scale(scale, scale)
+      ctx.fillStyle = pattern
+      // Anything bigger than the shape will do - the clip trims it
+      const extent = (Math.max(size.width, size.height) + Math.abs(offset.x) + Math.abs(offset.y)) / scale
+      ctx.fillRect(-extent, -extent, extent * 2, extent * 2)
+    }
+  }
+
+  ctx.restore()
+}
+
+/**
+ * Unrotated width and height of a serialized shape
+ */
+export function getShapeSize(shape: SerializedShape): { width: number; height: number } {
+  if (shape.kind === 'circle') {
+    return { width: shape.radius * 2, height: shape.radius * 2 }
+  }
+
+  const points = shape.outline?.flat() ?? (shape.kind === 'polygon' ? shape.vertices : shape.parts.flat())
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  return { width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) }
+}
+
+/**
+ * Add closed rings of vertices to the current path
+ */
+export function traceRings(ctx: CanvasRenderingContext2D, rings: Matter.Vector[][]) {
+  rings.forEach((vertices) => {
+    ctx.moveTo(vertices[0].x, vertices[0].y)
+    for (let i = 1; i < vertices.length; i++) {
+      ctx.lineTo(vertices[i].x, vertices[i].y)
+    }
+    ctx.closePath()
+  })
+}
+
+/**
+ * Trace a serialized shape around (0, 0) as the current path
+ */
+export function traceShape(ctx: CanvasRenderingContext2D, shape: SerializedShape) {
+  ctx.beginPath()
+
+  if (shape.kind === 'circle') {
+    ctx.arc(0, 0, shape.radius, 0, Math.PI * 2)
+    return
+  }
+
+  // The original outline looks better than the convex pieces
+  if (shape.outline) {
+    traceRings(ctx, shape.outline)
+    return
+  }
+
+  traceRings(ctx, shape.kind === 'polygon' ? [shape.vertices] : shape.parts)
+}
+
+/**
+ * Draw a serialized shape at a given transform (used by replay)
+ */
+export function drawShapeAt(
+  ctx: CanvasRenderingContext2D,
+  shape: SerializedShape,
+  fillStyle: string,
+  x: number,
+  y: number,
+  angle: number,
+  material?: MaterialName,
+  texture?: BodyTexture
+) {
+  ctx.save()
+  ctx.translate(x, y)
+  ctx.rotate(angle)
+
+  applyNeubrutalistStyle(ctx, fillStyle, getMaterialLineWidth(material))
+  traceShape(ctx, shape)
+  ctx.fill('evenodd')
+  fillTexture(ctx, texture, getShapeSize(shape))
+  fillMaterialPattern(ctx, material)
+  ctx.stroke()
+
+  ctx.restore()
+}
@@ -0,0 +1,253 @@
+/**
+ * EXPLAINER: Composite Factory
+ *
+ * The shape factory makes single rigid bodies. Real things are often
+ * several bodies held together by CONSTRAINTS - think of a constraint
+ * as an invisible stick (or spring) between two points:
+ * - Chain: links joined end to end, free to fall
+ * - Rope: a chain pinned to a point in the air, with a weight
+ * - Bridge: planks hanging between two pins - it sags!
+ * - Soft body: a grid of balls joined by springs, wobbles like jelly
+ * - Ragdoll: head, torso, arms and legs joined at the "bones"
+ *
+ * Every factory returns a Matter.Composite (bodies + constraints).
+ * PhysicsWorld.addComposite() adds its parts to the world, where they
+ * are drawn and dragged like any other shape. The links are drawn by
+ * lib/constraint-renderer.ts.
+ *
+ * Parts of one composite share a negative collision group, so they
+ * don't collide with EACH OTHER (a chain would jam itself otherwise)
+ * but still hit everything else.
+ *
+ * CHALLENGE: Hang a rope, then drag its weight up and let go.
+ * Now try a stiffness of 0.2 for a bungee cord!
+ *
+ * Docs: https://brm.io/matter-js/docs/classes/Composites.html
+ */
+
+import Matter from 'matter-js'
+import { COLORS } from './matter-config'
+import { pickRandom, randomInt, type RandomSource } from './random'
+import { createShape } from './shape-factory'
+
+const { Body, Composite, Composites, Constraint } = Matter
+
+/**
+ * Same idea as ShapeFactory, but the result has several bodies
+ */
+export type CompositeFactory = (x: number, y: number, rng?: RandomSource) => Matter.Composite
+
+/**
+ * A composite with its own non-colliding group
+ */
+function createGroup(label: string) {
+  return { composite: Composite.create({ label }), group: Body.nextGroup(true) }
+}
+
+/**
+ * Add a body to a composite, in the composite's collision group
+ */
+function addPart(composite: Matter.Composite, group: number, body: Matter.Body): Matter.Body {
+  body.collisionFilter.group = group
+  Composite.add(composite, body)
+  return body
+}
+
+/**
+ * A free chain of rectangular links, centered on (x, y)
+ */
+export function createChain(x: number, y: number, rng: RandomSource = Math.random): Matter.Composite {
+  const { composite, group } = createGroup('Chain')
+  const count = randomInt(rng, 8, 12)
+  const color = pickRandom(rng, COLORS)
+  const linkWidth = 28
+  const gap = 4
+  const startX = x - ((count - 1) * (linkWidth + gap)) / 2
+
+  for (let i = 0; i < count; i++) {
+    addPart(
+      composite,
+      group,
+      createShape({ kind: 'rectangle', x: startX + i * (linkWidth + gap), y, width: linkWidth, height: 10, color })
+    )
+  }
+
+  // Right edge of each link to the left edge of the next
+  return Composites.chain(composite, 0.5, 0, -0.5, 0, { stiffness: 1, length: gap, render: { type: 'line' } })
+}
+
+/**
+ * A rope hanging from a pin at (x, y), with a heavy ball at the end
+ */
+export function createRope(x: number, y: number, rng: RandomSource = Math.random): Matter.Composite {
+  const { composite, group } = createGroup('Rope')
+  const count = randomInt(rng, 10, 14)
+  const color = pickRandom(rng, COLORS)
+  const radius = 7
+  const gap = 3
+
+  for (let i = 0; i < count; i++) {
+    const isWeight = i === count - 1
+    addPart(
+      composite,
+      group,
+      createShape({
+        kind: 'circle',
+        x,
+        y: y + radius + i * (radius * 2 + gap),
+        radius: isWeight ? radius * 3 : radius,
+        color,
+        ...(isWeight && { material: 'steel' as const }),
+      })
+    )
+  }
+
+  // Bottom of each segment to the top of the next
+  Composites.chain(composite, 0, 0.5, 0, -0.5, { stiffness: 0.9, length: gap, render: { type: 'line' } })
+
+  // Pin the first segment to a point in the air
+  Composite.add(
+    composite,
+    Constraint.create({
+      pointA: { x, y },
+      bodyB: composite.bodies[0],
+      pointB: { x: 0, y: -radius },
+      length: 0,
+      stiffness: 1,
+      render: { type: 'pin' },
+    })
+  )
+
+  return composite
+}
+
+/**
+ * A plank bridge hanging between two pins, centered on (x, y)
+ */
+export function createBridge(x: number, y: number, rng: RandomSource = Math.random): Matter.Composite {
+  const { composite, group } = createGroup('Bridge')
+  const count = randomInt(rng, 8, 12)
+  const color = pickRandom(rng, COLORS)
+  const plankWidth = 36
+  const gap = 4
+  const span = count * (plankWidth + gap)
+  const startX = x - span / 2 + plankWidth / 2
+
+  for (let i = 0; i < count; i++) {
+    addPart(
+      composite,
+      group,
+      createShape({ kind: 'rectangle', x: startX + i * (plankWidth + gap), y, width: plankWidth, height: 12, color, material: 'wood' })
+    )
+  }
+
+  Composites.chain(composite, 0.5, 0, -0.5, 0, { stiffness: 0.9, length: gap, render: { type: 'line' } })
+
+  // Pins a little further out than the planks reach, so the bridge sags
+  const first = composite.bodies[0]
+  const last = composite.bodies[count - 1]
+  const pinOptions = { length: gap * 2, stiffness: 0.9, render: { type: 'pin' as const } }
+
+  Composite.add(composite, [
+    Constraint.create({
+      pointA: { x: x - span / 2 - gap * 2, y },
+      bodyB: first,
+      pointB: { x: -plankWidth / 2, y: 0 },
+      ...pinOptions,
+    }),
+    Constraint.create({
+      pointA: { x: x + span / 2 + gap * 2, y },
+      bodyB: last,
+      pointB: { x: plankWidth / 2, y: 0 },
+      ...pinOptions,
+    }),
+  ])
+
+  return composite
+}
+
+/**
+ * A wobbly grid of balls joined by springs, centered on (x, y)
+ *
+ * Like Composites.softBody, but the balls come from createShape, so
+ * they use the current material and a palette color.
+ */
+export function createSoftBody(x: number, y: number, rng: RandomSource = Math.random): Matter.Composite {
+  const composite = Composite.create({ label: 'Soft Body' })
+  const columns = randomInt(rng, 4, 6)
+  const rows = randomInt(rng, 3, 4)
+  const color = pickRandom(rng, COLORS)
+  const radius = 10
+  const spacing = radius * 2 + 4
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const ball = createShape({
+        kind: 'circle',
+        x: x + (column - (columns - 1) / 2) * spacing,
+        y: y + (row - (rows - 1) / 2) * spacing,
+        radius,
+        color,
+      })
+      // Balls that can't spin keep the grid from twisting itself up
+      Body.setInertia(ball, Infinity)
+      Composite.add(composite, ball)
+    }
+  }
+
+  // Springs to the neighbours, plus diagonal braces so it keeps its shape
+  return Composites.mesh(composite, columns, rows, true, { stiffness: 0.2, render: { type: 'spring' } })
+}
+
+/**
+ * A simple ragdoll standing around (x, y) (the middle of its torso)
+ */
+export function createRagdoll(x: number, y: number, rng: RandomSource = Math.random): Matter.Composite {
+  const { composite, group } = createGroup('Ragdoll')
+  const color = pickRandom(rng, COLORS)
+  const limb = (dx: number, dy: number, height: number, label: string) =>
+    addPart(composite, group, createShape({ kind: 'rectangle', x: x + dx, y: y + dy, width: 10, height, color, label }))
+
+  const torso = addPart(composite, group, createShape({ kind: 'rectangle', x, y, width: 28, height: 50, color, label: 'Torso' }))
+  const head = addPart(composite, group, createShape({ kind: 'circle', x, y: y - 39, radius: 14, color, label: 'Head' }))
+
+  /**
+   * A joint: pointA on bodyA and pointB on bodyB are held together
+   * (length 0), with a little give so limbs flop instead of snapping
+   */
+  const joint = (bodyA: Matter.Body, pointA: Matter.Vector, bodyB: Matter.Body, pointB: Matter.Vector) =>
+    Composite.add(
+      composite,
+      Constraint.create({ bodyA, pointA, bodyB, pointB, length: 0, stiffness: 0.6, render: { type: 'pin' } })
+    )
+
+  joint(torso, { x: 0, y: -25 }, head, { x: 0, y: 14 })
+
+  // Left side (-1), then right side (1). Every joint starts exactly in place.
+  ;[-1, 1].forEach((side) => {
+    const upperArm = limb(side * 19, -10, 28, 'Upper Arm')
+    const lowerArm = limb(side * 19, 16, 26, 'Lower Arm')
+    const upperLeg = limb(side * 8, 40, 30, 'Upper Leg')
+    const lowerLeg = limb(side * 8, 70, 30, 'Lower Leg')
+
+    joint(torso, { x: side * 14, y: -22 }, upperArm, { x: -side * 5, y: -12 })
+    joint(upperArm, { x: 0, y: 14 }, lowerArm, { x: 0, y: -12 })
+    joint(torso, { x: side * 8, y: 25 }, upperLeg, { x: 0, y: -15 })
+    joint(upperLeg, { x: 0, y: 15 }, lowerLeg, { x: 0, y: -15 })
+  })
+
+  return composite
+}
+
+/**
+ * Every composite kind, for spawn buttons and menus
+ */
+export const COMPOSITE_KINDS = [
+  { name: 'chain', label: 'Chain', factory: createChain },
+  { name: 'rope', label: 'Rope', factory: createRope },
+  { name: 'bridge', label: 'Bridge', factory: createBridge },
+  { name: 'soft-body', label: 'Soft body', factory: createSoftBody },
+  { name: 'ragdoll', label: 'Ragdoll', factory: createRagdoll },
+] as const satisfies readonly { name: string; label: string; factory: CompositeFactory }[]
+
+export type CompositeKind = (typeof COMPOSITE_KINDS)[number]['name']
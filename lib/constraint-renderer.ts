@@ -0,0 +1,103 @@
+/**
+ * EXPLAINER: Constraint Renderer
+ *
+ * Constraints are invisible to the engine - they're just "keep these
+ * two points this far apart". To see chains, ropes and ragdolls hold
+ * together, we draw every visible constraint on top of the bodies:
+ * - line: a thick black stick (chain links, rope segments)
+ * - spring: a thin dashed line (soft bodies stretch and squash)
+ * - pin: a stick with a round joint at each end (ragdoll joints)
+ *
+ * Ends attached to a fixed point in the world (a rope's hook, a
+ * bridge's anchors) are drawn as square "nails".
+ *
+ * Drag constraints (lib/pointer-drag.ts) are hidden with
+ * render.visible = false, so they are skipped.
+ *
+ * CHALLENGE: Draw springs as a zig-zag instead of a dashed line.
+ * Hint: step along the line and move sideways every few pixels.
+ */
+
+import Matter from 'matter-js'
+import { STYLE_CONFIG } from './matter-config'
+
+const { Composite, Constraint } = Matter
+
+/** Width of a line constraint (px) */
+const LINK_WIDTH = 4
+
+/** Radius of the joint dots on pins (px) */
+const JOINT_RADIUS = 4
+
+/** Half the size of the square nail on fixed points (px) */
+const NAIL_SIZE = 5
+
+/**
+ * Draw every visible constraint in the world
+ */
+export function drawConstraints(ctx: CanvasRenderingContext2D, world: Matter.World) {
+  ctx.save()
+  ctx.strokeStyle = STYLE_CONFIG.strokeColor
+  ctx.lineCap = 'round'
+
+  Composite.allConstraints(world).forEach((constraint) => {
+    if (constraint.render.visible === false) return
+
+    const start = Constraint.pointAWorld(constraint)
+    const end = Constraint.pointBWorld(constraint)
+    const type = constraint.render.type ?? 'line'
+
+    // Hard shadow under sticks; springs are too thin to carry one
+    if (type === 'spring') {
+      ctx.shadowColor = 'transparent'
+      ctx.lineWidth = STYLE_CONFIG.lineWidth
+      ctx.setLineDash([4, 4])
+    } else {
+      applyHardShadow(ctx)
+      ctx.lineWidth = LINK_WIDTH
+      ctx.setLineDash([])
+    }
+
+    ctx.beginPath()
+    ctx.moveTo(start.x, start.y)
+    ctx.lineTo(end.x, end.y)
+    ctx.stroke()
+
+    ctx.setLineDash([])
+    ctx.shadowColor = 'transparent'
+    ctx.lineWidth = STYLE_CONFIG.lineWidth
+    ctx.fillStyle = '#FFFFFF'
+
+    if (!constraint.bodyA) drawNail(ctx, start)
+    if (!constraint.bodyB) drawNail(ctx, end)
+
+    if (type === 'pin') {
+      if (constraint.bodyA) drawJoint(ctx, start)
+      if (constraint.bodyB) drawJoint(ctx, end)
+    }
+  })
+
+  ctx.restore()
+}
+
+/**
+ * Same hard shadow as the bodies, at half the offset - the sticks are thin
+ */
+function applyHardShadow(ctx: CanvasRenderingContext2D) {
+  ctx.shadowColor = STYLE_CONFIG.shadowColor
+  ctx.shadowOffsetX = STYLE_CONFIG.shadowOffset / 2
+  ctx.shadowOffsetY = STYLE_CONFIG.shadowOffset / 2
+  ctx.shadowBlur = 0
+}
+
+function drawJoint(ctx: CanvasRenderingContext2D, point: Matter.Vector) {
+  ctx.beginPath()
+  ctx.arc(point.x, point.y, JOINT_RADIUS, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.stroke()
+}
+
+function drawNail(ctx: CanvasRenderingContext2D, point: Matter.Vector) {
+  ctx.fillRect(point.x - NAIL_SIZE, point.y - NAIL_SIZE, NAIL_SIZE * 2, NAIL_SIZE * 2)
+  ctx.strokeRect(point.x - NAIL_SIZE, point.y - NAIL_SIZE, NAIL_SIZE * 2, NAIL_SIZE * 2)
+}
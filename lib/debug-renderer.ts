@@ -0,0 +1,311 @@
+/**
+ * EXPLAINER: Debug Overlay
+ *
+ * The normal render loop only shows what the shapes look like.
+ * This layer shows what the ENGINE sees:
+ * - Bounding boxes (AABBs) - the cheap "could these touch?" test
+ * - Contact points + normals - where and which way bodies are pushed apart
+ * - Velocity vectors - how far each body moves per step
+ * - Centers of mass - the point forces and rotation act around
+ * - Static bodies - the invisible walls and floor
+ * - Force fields - their reach, and which way they push (lib/force-fields.ts)
+ * - Gravity wells and zones (lib/gravity.ts)
+ *
+ * Sleeping bodies are grayed out by the render loop while this is on.
+ *
+ * Turn it on with "Debug view" in the settings panel
+ * (starts from RENDER_CONFIG.showDebug).
+ *
+ * CHALLENGE 7D: Drop a pile with 2 position iterations and look at the
+ * contact points. Then slide it to 10 - what happens to the overlaps?
+ */
+
+import Matter from 'matter-js'
+import type { ForceField } from './force-fields'
+import { areWellsActive, type GravityState } from './gravity'
+
+const { Composite } = Matter
+
+/**
+ * Colors for each debug layer
+ */
+export const DEBUG_COLORS = {
+  boundingBox: '#0080FF',
+  contact: '#FF0080',
+  velocity: '#00A000',
+  centerOfMass: '#000000',
+  staticBody: '#000000',
+  forceField: '#8000FF',
+  gravity: '#0080FF',
+  /** Fill used for sleeping bodies */
+  sleeping: '#BDBDBD',
+} as const
+
+/**
+ * Velocity is in px per step - scale it up so the arrows are visible
+ */
+const VELOCITY_SCALE = 5
+
+/**
+ * Length of a contact normal line (px)
+ */
+const NORMAL_LENGTH = 16
+
+/**
+ * Matter 0.20 only fills the first `contactCount` contacts of a pair,
+ * but the type definitions don't know about that field yet
+ */
+type PairWithCount = Matter.Pair & { contactCount?: number }
+
+/**
+ * Length of the arrows showing which way a field pushes (px)
+ */
+const FIELD_ARROW_LENGTH = 18
+
+/**
+ * Things that act on bodies but aren't bodies themselves
+ */
+export interface DebugOverlayExtras {
+  fields?: readonly ForceField[]
+  gravity?: GravityState
+}
+
+/**
+ * Draw every debug layer on top of the current frame
+ */
+export function drawDebugOverlay(
+  ctx: CanvasRenderingContext2D,
+  engine: Matter.Engine,
+  { fields = [], gravity }: DebugOverlayExtras = {}
+) {
+  const bodies = Composite.allBodies(engine.world)
+
+  ctx.save()
+  // Debug lines should be crisp - no neubrutalist shadows here
+  ctx.shadowColor = 'transparent'
+  ctx.lineWidth = 1
+
+  drawForceFields(ctx, fields)
+  if (gravity) drawGravity(ctx, gravity)
+  drawStaticBodies(ctx, bodies)
+  drawBoundingBoxes(ctx, bodies)
+  drawVelocities(ctx, bodies)
+  drawCentersOfMass(ctx, bodies)
+  drawContacts(ctx, engine.pairs.list as PairWithCount[])
+
+  ctx.restore()
+}
+
+/**
+ * Dashed outline + light hatch for walls, floor and other static bodies
+ */
+function drawStaticBodies(ctx: CanvasRenderingContext2D, bodies: Matter.Body[]) {
+  ctx.setLineDash([6, 4])
+  ctx.strokeStyle = DEBUG_COLORS.staticBody
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.08)'
+
+  bodies.forEach((body) => {
+    if (!body.isStatic) return
+
+    traceVertices(ctx, body.vertices)
+    ctx.fill()
+    ctx.stroke()
+  })
+
+  ctx.setLineDash([])
+}
+
+function drawBoundingBoxes(ctx: CanvasRenderingContext2D, bodies: Matter.Body[]) {
+  ctx.strokeStyle = DEBUG_COLORS.boundingBox
+
+  bodies.forEach((body) => {
+    if (body.isStatic) return
+
+    const { min, max } = body.bounds
+    ctx.strokeRect(min.x, min.y, max.x - min.x, max.y - min.y)
+  })
+}
+
+function drawVelocities(ctx: CanvasRenderingContext2D, bodies: Matter.Body[]) {
+  ctx.strokeStyle = DEBUG_COLORS.velocity
+  ctx.lineWidth = 2
+
+  bodies.forEach((body) => {
+    if (body.isStatic || body.isSleeping) return
+
+    const { position, velocity } = body
+    const end = {
+      x: position.x + velocity.x * VELOCITY_SCALE,
+      y: position.y + velocity.y * VELOCITY_SCALE,
+    }
+
+    ctx.beginPath()
+    ctx.moveTo(position.x, position.y)
+    ctx.lineTo(end.x, end.y)
+    ctx.stroke()
+  })
+
+  ctx.lineWidth = 1
+}
+
+function drawCentersOfMass(ctx: CanvasRenderingContext2D, bodies: Matter.Body[]) {
+  ctx.strokeStyle = DEBUG_COLORS.centerOfMass
+
+  bodies.forEach((body) => {
+    if (body.isStatic) return
+
+    const { x, y } = body.position
+    ctx.beginPath()
+    ctx.moveTo(x - 4, y)
+    ctx.lineTo(x + 4, y)
+    ctx.moveTo(x, y - 4)
+    ctx.lineTo(x, y + 4)
+    ctx.stroke()
+  })
+}
+
+/**
+ * A dot at every contact point and a line along the collision normal
+ */
+function drawContacts(ctx: CanvasRenderingContext2D, pairs: PairWithCount[]) {
+  ctx.strokeStyle = DEBUG_COLORS.contact
+  ctx.fillStyle = DEBUG_COLORS.contact
+
+  pairs.forEach((pair) => {
+    if (!pair.isActive || pair.isSensor) return
+
+    const { normal } = pair.collision
+    const count = pair.contactCount ?? pair.contacts.length
+
+    for (let i = 0; i < count; i++) {
+      const { vertex } = pair.contacts[i]
+
+      ctx.beginPath()
+      ctx.arc(vertex.x, vertex.y, 3, 0, Math.PI * 2)
+      ctx.fill()
+
+      ctx.beginPath()
+      ctx.moveTo(vertex.x, vertex.y)
+      ctx.lineTo(vertex.x + normal.x * NORMAL_LENGTH, vertex.y + normal.y * NORMAL_LENGTH)
+      ctx.stroke()
+    }
+  })
+}
+
+/**
+ * Each field's reach (dashed) with arrows showing which way it pushes
+ */
+function drawForceFields(ctx: CanvasRenderingContext2D, fields: readonly ForceField[]) {
+  ctx.strokeStyle = DEBUG_COLORS.forceField
+  ctx.fillStyle = DEBUG_COLORS.forceField
+  ctx.font = 'bold 11px monospace'
+  ctx.textAlign = 'center'
+
+  fields.forEach((field) => {
+    ctx.setLineDash([6, 4])
+    ctx.beginPath()
+
+    if (field.kind === 'wind') {
+      ctx.rect(field.x - field.width / 2, field.y - field.height / 2, field.width, field.height)
+    } else {
+      ctx.arc(field.x, field.y, field.radius, 0, Math.PI * 2)
+    }
+
+    ctx.stroke()
+    ctx.setLineDash([])
+
+    if (field.kind === 'wind') {
+      // A row of arrows across the middle, pointing downwind
+      const direction = { x: Math.cos(field.angle), y: Math.sin(field.angle) }
+      ;[-1, 0, 1].forEach((step) => {
+        const start = { x: field.x + (step * field.width) / 4, y: field.y }
+        drawArrow(ctx, start, direction)
+      })
+    } else {
+      // Eight arrows halfway out: inward, outward or around
+      for (let i = 0; i < 8; i++) {
+        const angle = (i / 8) * Math.PI * 2
+        const outward = { x: Math.cos(angle), y: Math.sin(angle) }
+        const point = { x: field.x + outward.x * field.radius * 0.5, y: field.y + outward.y * field.radius * 0.5 }
+        const direction =
+          field.kind === 'attractor'
+            ? { x: -outward.x, y: -outward.y }
+            : field.kind === 'repulsor'
+              ? outward
+              : { x: outward.y, y: -outward.x }
+
+        drawArrow(ctx, point, direction)
+      }
+    }
+
+    ctx.fillText(`${field.kind} ×${field.strength}`, field.x, field.y + 4)
+  })
+}
+
+/**
+ * Wells as double rings - faded and marked "off" while they don't pull
+ * (uniform mode) - and zones as dashed outlines with an arrow for their
+ * gravity ("0G" for zero-G)
+ */
+function drawGravity(ctx: CanvasRenderingContext2D, state: GravityState) {
+  const { wells, zones } = state
+  const wellsActive = areWellsActive(state)
+
+  ctx.strokeStyle = DEBUG_COLORS.gravity
+  ctx.fillStyle = DEBUG_COLORS.gravity
+  ctx.font = 'bold 11px monospace'
+  ctx.textAlign = 'center'
+
+  wells.forEach((well) => {
+    ctx.globalAlpha = wellsActive ? 1 : 0.4
+    ;[12, 24].forEach((radius) => {
+      ctx.beginPath()
+      ctx.arc(well.x, well.y, radius, 0, Math.PI * 2)
+      ctx.stroke()
+    })
+    ctx.fillText(`well ×${well.strength}${wellsActive ? '' : ' (off)'}`, well.x, well.y + 40)
+  })
+  ctx.globalAlpha = 1
+
+  zones.forEach((zone) => {
+    ctx.setLineDash([2, 4])
+    ctx.beginPath()
+    if (zone.kind === 'circle') {
+      ctx.arc(zone.x, zone.y, zone.radius, 0, Math.PI * 2)
+    } else {
+      ctx.rect(zone.x - zone.width / 2, zone.y - zone.height / 2, zone.width, zone.height)
+    }
+    ctx.stroke()
+    ctx.setLineDash([])
+
+    const strength = Math.hypot(zone.gravity.x, zone.gravity.y)
+    if (strength === 0) {
+      ctx.fillText('0G', zone.x, zone.y + 4)
+    } else {
+      drawArrow(ctx, zone, { x: zone.gravity.x / strength, y: zone.gravity.y / strength })
+    }
+  })
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, start: Matter.Vector, direction: Matter.Vector) {
+  const end = { x: start.x + direction.x * FIELD_ARROW_LENGTH, y: start.y + direction.y * FIELD_ARROW_LENGTH }
+  const head = 5
+
+  ctx.beginPath()
+  ctx.moveTo(start.x, start.y)
+  ctx.lineTo(end.x, end.y)
+  // Two short strokes back from the tip
+  ctx.moveTo(end.x - (direction.x - direction.y) * head, end.y - (direction.y + direction.x) * head)
+  ctx.lineTo(end.x, end.y)
+  ctx.lineTo(end.x - (direction.x + direction.y) * head, end.y - (direction.y - direction.x) * head)
+  ctx.stroke()
+}
+
+function traceVertices(ctx: CanvasRenderingContext2D, vertices: Matter.Vector[]) {
+  ctx.beginPath()
+  ctx.moveTo(vertices[0].x, vertices[0].y)
+  for (let i = 1; i < vertices.length; i++) {
+    ctx.lineTo(vertices[i].x, vertices[i].y)
+  }
+  ctx.closePath()
+}
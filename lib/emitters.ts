@@ -0,0 +1,378 @@
+/**
+ * EXPLAINER: Emitters
+ *
+ * An emitter is a spawner that lives for a while. Every engine update
+ * it decides how many shapes to add, where, and how fast they move:
+ * - rain: along the top edge, falling in
+ * - fountain: from one point, shooting up in a narrow cone
+ * - burst: from one point, in every direction at once
+ * - stream: from the mouse pointer, for as long as it runs
+ * - grid: a neat block of shapes, dropped row by row
+ *
+ * What every emitter has:
+ * - rate: shapes per second (Infinity = everything in one go)
+ * - count: shapes in total (Infinity = until it stops), or a
+ *   { min, max } range - the emitter rolls its count when it is created
+ * - velocity cone: a direction, how wide the cone is, and a speed range
+ * - shape mix: weights per registered shape (default: the settings panel mix)
+ * - delay + duration: when it starts and when it stops
+ *
+ * Time is SIMULATION time, like the lifecycle policies: pausing also
+ * pauses emitters, and slow motion slows them down.
+ *
+ * ```
+ * emitters.add(createEmitter('fountain', { x: 400, y: 500, duration: 3000 }))
+ * ```
+ *
+ * CHALLENGE: Make a sprinkler - a fountain whose cone angle swings
+ * back and forth (hint: change emitter.options.velocity.angle every frame).
+ */
+
+import Matter from 'matter-js'
+import type { PhysicsWorld } from './physics-world'
+import { pickWeighted, randomInRange, randomInt, type RandomSource } from './random'
+import { getShapes } from './shape-registry'
+import { createRandomShape } from './shape-factory'
+
+const { Body, Events } = Matter
+
+export type EmitterKind = 'rain' | 'fountain' | 'burst' | 'stream' | 'grid'
+
+/**
+ * Which way new shapes move
+ */
+export interface VelocityCone {
+  /** Middle of the cone in radians (0 = right, π/2 = down, -π/2 = up) */
+  angle: number
+  /** Full width of the cone in radians (0 = one direction, 2π = all around) */
+  spread: number
+  /** Speed range, in px per step */
+  minSpeed: number
+  maxSpeed: number
+}
+
+export interface EmitterOptions {
+  kind: EmitterKind
+  /** Shapes per second (Infinity = all at once) */
+  rate: number
+  /** Shapes in total (Infinity = until the duration runs out or stop()) */
+  count: number
+  velocity: VelocityCone
+  /** Weight per registered shape name. Leave out to use the registry mix. */
+  shapeMix?: Record<string, number>
+  /** Source point for fountain and burst (default: depends on the kind) */
+  x?: number
+  y?: number
+  /** Columns for grid emitters */
+  columns?: number
+  /** Wait this long before emitting (ms) */
+  delay?: number
+  /** Stop this long after starting (ms, Infinity = never) */
+  duration?: number
+  rng?: RandomSource
+}
+
+/**
+ * A fixed number of shapes, or a range to roll from (inclusive)
+ */
+export type EmitterCount = number | { min: number; max: number }
+
+/**
+ * Options for createEmitter(): like EmitterOptions, but the count may be a range
+ */
+export type EmitterPreset = Omit<EmitterOptions, 'kind' | 'count'> & { count: EmitterCount }
+
+/**
+ * What an emitter needs to know about the world right now
+ */
+export interface EmitterContext {
+  width: number
+  height: number
+  /** Mouse pointer on the canvas, null when it's outside */
+  pointer: Matter.Vector | null
+}
+
+/** Spawn just above the screen, so shapes fall into view */
+const TOP_Y = -50
+
+/**
+ * Never more shapes than this per update, so an endless emitter with
+ * rate Infinity can't freeze the page
+ */
+const MAX_PER_UPDATE = 100
+
+/** Bursts start anywhere within this distance of their point (px) */
+const BURST_RADIUS = 80
+
+/** Room per grid cell - the biggest random shapes are ~100 px */
+const GRID_SPACING = 110
+
+/**
+ * Starting values for each kind - createEmitter() fills in the rest
+ */
+export const EMITTER_PRESETS: Record<EmitterKind, EmitterPreset> = {
+  rain: {
+    rate: Infinity,
+    count: { min: 30, max: 50 },
+    velocity: { angle: Math.PI / 2, spread: Math.PI / 2, minSpeed: 0, maxSpeed: 2 },
+  },
+  fountain: {
+    rate: 8,
+    count: Infinity,
+    duration: 5000,
+    velocity: { angle: -Math.PI / 2, spread: Math.PI / 6, minSpeed: 14, maxSpeed: 20 },
+    shapeMix: { circle: 3, 'star-5': 1, 'star-6': 1 },
+  },
+  burst: {
+    rate: Infinity,
+    count: 30,
+    velocity: { angle: 0, spread: Math.PI * 2, minSpeed: 6, maxSpeed: 14 },
+  },
+  stream: {
+    rate: 10,
+    count: Infinity,
+    duration: 4000,
+    velocity: { angle: Math.PI / 2, spread: Math.PI / 8, minSpeed: 1, maxSpeed: 3 },
+    shapeMix: { circle: 1 },
+  },
+  grid: {
+    rate: 30,
+    count: 24,
+    columns: 8,
+    velocity: { angle: Math.PI / 2, spread: 0, minSpeed: 0, maxSpeed: 0 },
+    shapeMix: { rectangle: 1, hexagon: 1 },
+  },
+}
+
+/**
+ * Every emitter kind, for pickers in the UI
+ */
+export const EMITTER_KINDS = Object.keys(EMITTER_PRESETS) as EmitterKind[]
+
+/**
+ * A preset emitter, with any option overridden
+ *
+ * A count range is rolled here, with the emitter's rng - the same seed
+ * gives the same count.
+ */
+export function createEmitter(kind: EmitterKind, options: Partial<EmitterPreset> = {}): Emitter {
+  const { count, ...rest } = { ...EMITTER_PRESETS[kind], ...options }
+  const rng = rest.rng ?? Math.random
+
+  return new Emitter({ ...rest, kind, count: typeof count === 'number' ? count : randomInt(rng, count.min, count.max) })
+}
+
+export class Emitter {
+  readonly options: EmitterOptions
+  private elapsed = 0
+  private emitted = 0
+  // Fractions of a shape owed by the rate, paid out once they add up to one
+  private pending = 0
+  private stopped = false
+
+  constructor(options: EmitterOptions) {
+    this.options = options
+  }
+
+  /**
+   * Done for good: used up its count, ran out of time, or was stopped.
+   * An emitter with rate 0 never makes anything, so it is done right away.
+   */
+  get isFinished(): boolean {
+    const { rate, count, delay = 0, duration = Infinity } = this.options
+    return this.stopped || rate <= 0 || this.emitted >= count || this.elapsed >= delay + duration
+  }
+
+  /**
+   * How many shapes it has made so far
+   */
+  get emittedCount(): number {
+    return this.emitted
+  }
+
+  stop() {
+    this.stopped = true
+  }
+
+  /**
+   * Advance by `delta` ms and return the shapes to add to the world
+   */
+  update(delta: number, context: EmitterContext): Matter.Body[] {
+    if (this.isFinished) return []
+
+    const { rate, count, delay = 0 } = this.options
+    this.elapsed += delta
+    if (this.elapsed < delay) return []
+
+    // Streams wait (without using up their count) while the pointer is away
+    if (this.options.kind === 'stream' && !context.pointer) return []
+
+    this.pending += rate === Infinity ? Infinity : (rate * delta) / 1000
+    const amount = Math.min(Math.floor(this.pending), count - this.emitted, MAX_PER_UPDATE)
+    if (amount <= 0) return []
+
+    this.pending -= amount
+    const bodies: Matter.Body[] = []
+
+    for (let i = 0; i < amount; i++) {
+      bodies.push(this.emitOne(context))
+      this.emitted++
+    }
+
+    return bodies
+  }
+
+  private emitOne(context: EmitterContext): Matter.Body {
+    const { velocity, rng = Math.random } = this.options
+    const angle = velocity.angle + randomInRange(rng, -velocity.spread / 2, velocity.spread / 2)
+    const speed = randomInRange(rng, velocity.minSpeed, velocity.maxSpeed)
+    const direction = { x: Math.cos(angle), y: Math.sin(angle) }
+
+    const { x, y } = this.getSpawnPoint(context, direction)
+    const body = this.createShape(x, y)
+    Body.setVelocity(body, { x: direction.x * speed, y: direction.y * speed })
+
+    return body
+  }
+
+  /**
+   * Where the next shape starts, for each kind
+   */
+  private getSpawnPoint({ width, height, pointer }: EmitterContext, direction: Matter.Vector): Matter.Vector {
+    const { kind, rng = Math.random } = this.options
+
+    switch (kind) {
+      case 'rain':
+        return { x: randomInRange(rng, 0, width), y: TOP_Y }
+      case 'fountain':
+        // Above the floor (50 px), so shapes don't start inside it
+        return { x: this.options.x ?? width / 2, y: this.options.y ?? height - 120 }
+      case 'burst': {
+        // Already a little way out along its direction, so the shapes
+        // don't all start stacked on the exact same point
+        const distance = randomInRange(rng, 0, BURST_RADIUS)
+        return {
+          x: (this.options.x ?? width / 2) + direction.x * distance,
+          y: (this.options.y ?? height / 3) + direction.y * distance,
+        }
+      }
+      case 'stream':
+        return pointer ?? { x: width / 2, y: TOP_Y }
+      case 'grid': {
+        const columns = Math.max(1, this.options.columns ?? 8)
+        const column = this.emitted % columns
+        const row = Math.floor(this.emitted / columns)
+        const gridWidth = Math.min(width, columns * GRID_SPACING)
+        const left = (width - gridWidth) / 2
+
+        // Later rows start higher, so each row lands on the one before
+        return { x: left + (column + 0.5) * (gridWidth / columns), y: TOP_Y - row * GRID_SPACING }
+      }
+    }
+  }
+
+  /**
+   * A shape from the emitter's own mix, or from the registry mix
+   */
+  private createShape(x: number, y: number): Matter.Body {
+    const { shapeMix, rng = Math.random } = this.options
+    if (!shapeMix) return createRandomShape(x, y, rng)
+
+    // Only shapes that are still registered (imports can be removed)
+    const entry = pickWeighted(rng, getShapes(), (shape) => shapeMix[shape.name] ?? 0)
+    return entry ? entry.factory(x, y, rng) : createRandomShape(x, y, rng)
+  }
+}
+
+/**
+ * Fired on the manager when emitters are added or finish
+ */
+export interface EmittersChangedEvent {
+  emitters: readonly Emitter[]
+}
+
+/**
+ * Runs emitters against a PhysicsWorld
+ *
+ * Like BodyLifecycleManager it survives world rebuilds: attach() to the
+ * new world and running emitters carry on there.
+ *
+ * Events (listen with Matter.Events.on(manager, ...)):
+ * - 'emittersChanged': EmittersChangedEvent
+ */
+export class EmitterManager {
+  private physics: PhysicsWorld | null = null
+  private emitters: Emitter[] = []
+  private pointer: Matter.Vector | null = null
+
+  /**
+   * Start emitting into a world (detaches from the previous one)
+   */
+  attach(physics: PhysicsWorld) {
+    this.detach()
+    this.physics = physics
+
+    Events.on(physics.engine, 'afterUpdate', this.handleAfterUpdate)
+  }
+
+  detach() {
+    if (!this.physics) return
+
+    Events.off(this.physics.engine, 'afterUpdate', this.handleAfterUpdate)
+    this.physics = null
+  }
+
+  add(emitter: Emitter) {
+    this.emitters = [...this.emitters, emitter]
+    this.notify()
+  }
+
+  /**
+   * Stop and drop every emitter
+   */
+  clear() {
+    this.emitters.forEach((emitter) => emitter.stop())
+    this.emitters = []
+    this.notify()
+  }
+
+  /**
+   * Running emitters, oldest first
+   *
+   * The array is replaced (never mutated) on every change.
+   */
+  getEmitters(): readonly Emitter[] {
+    return this.emitters
+  }
+
+  /**
+   * Where stream emitters spawn (canvas pixels), null when the pointer left
+   */
+  setPointer(pointer: Matter.Vector | null) {
+    this.pointer = pointer
+  }
+
+  private notify() {
+    const event: EmittersChangedEvent = { emitters: this.emitters }
+    Events.trigger(this, 'emittersChanged', event)
+  }
+
+  private handleAfterUpdate = () => {
+    const physics = this.physics
+    if (!physics || this.emitters.length === 0) return
+
+    // Already multiplied by the time scale
+    const delta = physics.engine.timing.lastDelta
+    const context: EmitterContext = { width: physics.width, height: physics.height, pointer: this.pointer }
+
+    this.emitters.forEach((emitter) => {
+      const bodies = emitter.update(delta, context)
+      if (bodies.length > 0) physics.addBody(bodies)
+    })
+
+    if (this.emitters.some((emitter) => emitter.isFinished)) {
+      this.emitters = this.emitters.filter((emitter) => !emitter.isFinished)
+      this.notify()
+    }
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * EXPLAINER: Force Fields
+ *
+ * Gravity pulls every body the same way. A force field pushes only the
+ * bodies near it, and can push them any way it likes:
+ * - attractor: pulls bodies toward a point (a black hole!)
+ * - repulsor: pushes bodies away from a point
+ * - vortex: spins bodies around a point, like water down a drain
+ * - wind: pushes everything inside a rectangle one way (a fan)
+ *
+ * Point fields have a radius and a FALLOFF - how the push fades with
+ * distance:
+ * - none: same strength everywhere inside the radius
+ * - linear: full strength at the center, zero at the edge
+ * - inverse-square: like real gravity, 4x weaker at twice the distance
+ *
+ * Strength is measured in "gravities": strength 1 pushes as hard as the
+ * normal downward gravity (engine.gravity.scale), whatever the mass.
+ *
+ * The forces are added before every engine update ('beforeUpdate'),
+ * right where Matter.js adds gravity. Matter clears body.force after
+ * each update, so a field has to push again every step.
+ *
+ * Turn on the debug view to see where the fields are.
+ *
+ * CHALLENGE: Put an attractor in the middle, set gravity to 0 and
+ * throw shapes past it. Can you get one to orbit?
+ */
+
+import Matter from 'matter-js'
+import type { PhysicsWorld } from './physics-world'
+
+const { Events } = Matter
+
+export type ForceFieldKind = 'attractor' | 'repulsor' | 'vortex' | 'wind'
+
+export type Falloff = 'none' | 'linear' | 'inverse-square'
+
+interface ForceFieldBase {
+  /** Set by the manager, used to move or remove the field */
+  id: number
+  /** Relative to gravity: 1 = as strong as normal gravity */
+  strength: number
+}
+
+/**
+ * Attractors, repulsors and vortices act around a point
+ */
+export interface PointField extends ForceFieldBase {
+  kind: 'attractor' | 'repulsor' | 'vortex'
+  x: number
+  y: number
+  /** Bodies further away than this are not affected (px) */
+  radius: number
+  falloff: Falloff
+}
+
+/**
+ * Wind pushes one way inside a rectangle
+ */
+export interface WindField extends ForceFieldBase {
+  kind: 'wind'
+  /** Center of the rectangle */
+  x: number
+  y: number
+  width: number
+  height: number
+  /** Direction in radians (0 = right, π/2 = down, -π/2 = up) */
+  angle: number
+}
+
+export type ForceField = PointField | WindField
+
+/**
+ * A field to add, before the manager gives it an id
+ */
+export type ForceFieldSpec = Omit<PointField, 'id'> | Omit<WindField, 'id'>
+
+/**
+ * Values update() may change - everything but the id and the kind (a
+ * wind field has no radius to keep, an attractor no angle)
+ */
+export type ForceFieldChanges = Partial<Omit<PointField, 'id' | 'kind'>> | Partial<Omit<WindField, 'id' | 'kind'>>
+
+/**
+ * Below this distance inverse-square stops growing - otherwise a body
+ * right on top of an attractor would get an infinite push
+ */
+const MINIMUM_DISTANCE = 30
+
+/**
+ * How much a vortex also pulls inward, relative to its swirl. Without
+ * it bodies fly out of the swirl instead of circling.
+ */
+const VORTEX_PULL = 0.3
+
+/**
+ * Default field of each kind, centered on (x, y)
+ */
+export function createForceFieldSpec(kind: ForceFieldKind, x: number, y: number): ForceFieldSpec {
+  switch (kind) {
+    case 'attractor':
+      return { kind, x, y, radius: 300, strength: 3, falloff: 'inverse-square' }
+    case 'repulsor':
+      return { kind, x, y, radius: 200, strength: 3, falloff: 'linear' }
+    case 'vortex':
+      return { kind, x, y, radius: 250, strength: 2, falloff: 'linear' }
+    case 'wind':
+      return { kind, x, y, width: 300, height: 200, angle: 0, strength: 1.5 }
+  }
+}
+
+/**
+ * How much of its strength a point field has at a distance (0 - 1)
+ */
+export function getFalloff(field: PointField, distance: number): number {
+  if (distance > field.radius) return 0
+
+  switch (field.falloff) {
+    case 'none':
+      return 1
+    case 'linear':
+      return 1 - distance / field.radius
+    case 'inverse-square':
+      return (MINIMUM_DISTANCE / Math.max(distance, MINIMUM_DISTANCE)) ** 2
+  }
+}
+
+/**
+ * Is a point inside a wind rectangle?
+ */
+export function isInWindField(field: WindField, point: Matter.Vector): boolean {
+  return Math.abs(point.x - field.x) <= field.width / 2 && Math.abs(point.y - field.y) <= field.height / 2
+}
+
+/**
+ * The acceleration (in gravities) a field gives a body at `position`
+ *
+ * Multiply by mass × gravity scale to get the force - see applyForceFields.
+ */
+export function getFieldAcceleration(field: ForceField, position: Matter.Vector): Matter.Vector {
+  if (field.kind === 'wind') {
+    if (!isInWindField(field, position)) return { x: 0, y: 0 }
+    return { x: Math.cos(field.angle) * field.strength, y: Math.sin(field.angle) * field.strength }
+  }
+
+  const dx = field.x - position.x
+  const dy = field.y - position.y
+  const distance = Math.hypot(dx, dy)
+  // Right on the center there is no direction to push in
+  if (distance === 0) return { x: 0, y: 0 }
+
+  const amount = field.strength * getFalloff(field, distance)
+  // Unit vector from the body toward the center
+  const inward = { x: dx / distance, y: dy / distance }
+
+  switch (field.kind) {
+    case 'attractor':
+      return { x: inward.x * amount, y: inward.y * amount }
+    case 'repulsor':
+      return { x: -inward.x * amount, y: -inward.y * amount }
+    case 'vortex':
+      // Sideways (counter-clockwise on screen), plus a little inward pull
+      return {
+        x: (-inward.y + inward.x * VORTEX_PULL) * amount,
+        y: (inward.x + inward.y * VORTEX_PULL) * amount,
+      }
+  }
+}
+
+/**
+ * Push every awake dynamic body by every field
+ *
+ * Sleeping bodies are skipped by the engine anyway - the manager wakes
+ * everything up whenever the fields change.
+ */
+export function applyForceFields(engine: Matter.Engine, fields: readonly ForceField[]) {
+  if (fields.length === 0) return
+
+  const scale = engine.gravity.scale
+
+  engine.world.bodies.forEach((body) => {
+    if (body.isStatic || body.isSleeping) return
+
+    fields.forEach((field) => {
+      const acceleration = getFieldAcceleration(field, body.position)
+      body.force.x += acceleration.x * body.mass * scale
+      body.force.y += acceleration.y * body.mass * scale
+    })
+  })
+}
+
+/**
+ * Fired on the manager whenever a field is added, moved or removed
+ */
+export interface FieldsChangedEvent {
+  fields: readonly ForceField[]
+}
+
+/**
+ * Holds the force fields and applies them to a PhysicsWorld
+ *
+ * Like the other managers it survives world rebuilds: attach() to the
+ * new world and the fields keep working there.
+ *
+ * Events (listen with Matter.Events.on(manager, ...)):
+ * - 'fieldsChanged': FieldsChangedEvent
+ */
+export class ForceFieldManager {
+  private physics: PhysicsWorld | null = null
+  private fields: readonly ForceField[] = []
+  private nextId = 1
+
+  /**
+   * Start pushing bodies in a world (detaches from the previous one)
+   */
+  attach(physics: PhysicsWorld) {
+    this.detach()
+    this.physics = physics
+
+    Events.on(physics.engine, 'beforeUpdate', this.handleBeforeUpdate)
+  }
+
+  detach() {
+    if (!this.physics) return
+
+    Events.off(this.physics.engine, 'beforeUpdate', this.handleBeforeUpdate)
+    this.physics = null
+  }
+
+  /**
+   * Add a field. Returns it with its new id.
+   */
+  add(spec: ForceFieldSpec): ForceField {
+    const id = this.nextId++
+    const field: ForceField = spec.kind === 'wind' ? { ...spec, id } : { ...spec, id }
+    this.setFields([...this.fields, field])
+    return field
+  }
+
+  /**
+   * Change some values of a field (move it, make it stronger...). The
+   * kind stays: remove the field and add a new one to change it.
+   */
+  update(id: number, changes: ForceFieldChanges) {
+    if (!this.fields.some((field) => field.id === id)) {
+      throw new Error(`Unknown force field ${id}`)
+    }
+
+    this.setFields(
+      this.fields.map((field) => (field.id === id ? ({ ...field, ...changes, id, kind: field.kind } as ForceField) : field))
+    )
+  }
+
+  /**
+   * Remove a field. Returns false if there was no such field.
+   */
+  remove(id: number): boolean {
+    if (!this.fields.some((field) => field.id === id)) return false
+
+    this.setFields(this.fields.filter((field) => field.id !== id))
+    return true
+  }
+
+  clear() {
+    this.setFields([])
+  }
+
+  /**
+   * Every field, oldest first
+   *
+   * The array is replaced (never mutated) on every change.
+   */
+  getFields(): readonly ForceField[] {
+    return this.fields
+  }
+
+  private setFields(fields: readonly ForceField[]) {
+    this.fields = fields
+
+    // Bodies asleep in (or near) a field should feel the change right away
+    this.physics?.wakeAll()
+
+    const event: FieldsChangedEvent = { fields }
+    Events.trigger(this, 'fieldsChanged', event)
+  }
+
+  private handleBeforeUpdate = () => {
+    if (this.physics) applyForceFields(this.physics.engine, this.fields)
+  }
+}
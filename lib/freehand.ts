@@ -0,0 +1,137 @@
+/**
+ * EXPLAINER: Freehand Shapes
+ *
+ * Draw a closed outline with the pointer and it drops into the world
+ * as a real body (the draw tool in lib/tools.ts). From stroke to body:
+ *
+ * 1. The pointer leaves a trail of points - hundreds of them, a few
+ *    pixels apart, wobbly from a shaky hand.
+ * 2. The stroke counts as closed when it ends near where it started.
+ * 3. Simplify: the Ramer-Douglas-Peucker algorithm keeps only the
+ *    points that matter. Between two kept points, every dropped point
+ *    was less than SIMPLIFY_TOLERANCE px off the straight line.
+ *    Fewer points = fewer, bigger convex pieces = faster collisions.
+ * 4. The simplified ring becomes a { kind: 'outline' } shape spec, so
+ *    it is built like stars and imported icons (lib/outline.ts): split
+ *    into convex pieces if concave, drawn with the original outline.
+ *    It gets the current material and a color from the palette.
+ *
+ * CHALLENGE: Set SIMPLIFY_TOLERANCE to 20 and draw a circle. How many
+ * corners does it end up with?
+ */
+
+import type Matter from 'matter-js'
+import { COLORS } from './matter-config'
+import { getOutlineCentroid, getRingArea } from './outline'
+import { pickRandom, type RandomSource } from './random'
+import { createShape } from './shape-factory'
+
+/** Biggest wobble (px) that simplifying may smooth away */
+export const SIMPLIFY_TOLERANCE = 3
+
+/** A stroke that ends this close to its start is closed (px) */
+export const CLOSE_DISTANCE = 40
+
+/** Smaller outlines are scribbles, not shapes (px²) */
+const MINIMUM_FREEHAND_AREA = 300
+
+/**
+ * Distance from a point to the segment a -> b
+ */
+function getSegmentDistance(point: Matter.Vector, a: Matter.Vector, b: Matter.Vector): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  if (lengthSquared === 0) return Math.hypot(point.x - a.x, point.y - a.y)
+
+  // Where along the segment the point is closest (0 = a, 1 = b)
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy))
+}
+
+/**
+ * Ramer-Douglas-Peucker: keep the ends, find the point furthest from
+ * the line between them, and keep it if it is further than `tolerance`
+ * - then do the same on both halves.
+ */
+export function simplifyStroke(
+  points: readonly Matter.Vector[],
+  tolerance: number = SIMPLIFY_TOLERANCE
+): Matter.Vector[] {
+  if (points.length < 3) return points.map((point) => ({ ...point }))
+
+  const first = points[0]
+  const last = points[points.length - 1]
+  let furthest = 0
+  let furthestDistance = 0
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = getSegmentDistance(points[i], first, last)
+    if (distance > furthestDistance) {
+      furthest = i
+      furthestDistance = distance
+    }
+  }
+
+  if (furthestDistance <= tolerance) return [{ ...first }, { ...last }]
+
+  const before = simplifyStroke(points.slice(0, furthest + 1), tolerance)
+  const after = simplifyStroke(points.slice(furthest), tolerance)
+
+  // The split point ends one half and starts the other - keep it once
+  return [...before.slice(0, -1), ...after]
+}
+
+/**
+ * Does the stroke end close enough to its start to form an outline?
+ */
+export function isClosedStroke(points: readonly Matter.Vector[]): boolean {
+  if (points.length < 3) return false
+
+  const first = points[0]
+  const last = points[points.length - 1]
+  return Math.hypot(last.x - first.x, last.y - first.y) <= CLOSE_DISTANCE
+}
+
+/**
+ * Simplify a closed stroke into an outline ring, or null if it is
+ * open or too small to be a shape
+ */
+export function getFreehandOutline(
+  points: readonly Matter.Vector[],
+  tolerance: number = SIMPLIFY_TOLERANCE
+): Matter.Vector[] | null {
+  if (!isClosedStroke(points)) return null
+
+  // The ring closes itself - a last point on top of the first adds nothing
+  const ring = simplifyStroke(points, tolerance)
+  const last = ring[ring.length - 1]
+  if (ring.length > 3 && Math.hypot(last.x - ring[0].x, last.y - ring[0].y) <= tolerance) ring.pop()
+
+  if (ring.length < 3 || Math.abs(getRingArea(ring)) < MINIMUM_FREEHAND_AREA) return null
+
+  return ring
+}
+
+/**
+ * Turn a closed stroke (world coordinates) into a dynamic body, right
+ * where it was drawn. Returns null for open strokes and scribbles.
+ *
+ * Uses the current material from the settings panel.
+ */
+export function createFreehandBody(
+  points: readonly Matter.Vector[],
+  rng: RandomSource = Math.random
+): Matter.Body | null {
+  const ring = getFreehandOutline(points)
+  if (!ring) return null
+
+  const { x, y } = getOutlineCentroid([ring])
+
+  try {
+    return createShape({ kind: 'outline', x, y, rings: [ring], color: pickRandom(rng, COLORS), label: 'Freehand' })
+  } catch {
+    // Nothing solid left after decomposition (e.g. a stroke folded onto itself)
+    return null
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * EXPLAINER: Gravity Modes and Zones
+ *
+ * engine.gravity is one vector for the whole world. This module bends
+ * the rules in two ways:
+ *
+ * 1. MODES - where "down" is:
+ *    - uniform: the normal engine gravity (the settings sliders)
+ *    - planetary: every body is pulled toward one or more gravity
+ *      wells, weaker with distance (inverse square), like planets.
+ *      Throw a shape sideways past a well and it can orbit!
+ *      With no wells at all it falls back to uniform gravity, so
+ *      clearing the wells never leaves the world floating.
+ *
+ * 2. ZONES - a rectangle or circle with its own gravity vector. Inside
+ *    a zone its gravity REPLACES the mode's (the last zone added wins
+ *    where zones overlap). A zone with { x: 0, y: 0 } is a zero-G region.
+ *
+ * How it works: Matter.js always adds engine.gravity to every body.
+ * Before each update we add a correction force:
+ *   wanted gravity - engine gravity
+ * so the two together give exactly the gravity we want.
+ *
+ * Sleeping bodies ignore gravity, so changing the mode, a well or a
+ * zone wakes everything up.
+ *
+ * Well strength is in "gravities" at WELL_REFERENCE_DISTANCE: a well of
+ * strength 1 pulls as hard as normal gravity 100 px from its center.
+ *
+ * CHALLENGE: Switch to planetary, set "Air friction" to 0 and fling a
+ * shape sideways near the well. How long does the orbit last? Why does
+ * it decay when air friction is back on?
+ */
+
+import Matter from 'matter-js'
+import type { PhysicsWorld } from './physics-world'
+
+const { Events } = Matter
+
+export type GravityMode = 'uniform' | 'planetary'
+
+export const GRAVITY_MODES: readonly GravityMode[] = ['uniform', 'planetary']
+
+/**
+ * A point everything falls toward in planetary mode
+ */
+export interface GravityWell {
+  /** Set by the manager, used to move or remove the well */
+  id: number
+  x: number
+  y: number
+  /** Pull (in gravities) at WELL_REFERENCE_DISTANCE */
+  strength: number
+}
+
+interface GravityZoneBase {
+  /** Set by the manager, used to move or remove the zone */
+  id: number
+  /** Gravity inside the zone ({ x: 0, y: 0 } = zero-G) */
+  gravity: Matter.Vector
+}
+
+export interface RectangleZone extends GravityZoneBase {
+  kind: 'rectangle'
+  /** Center of the rectangle */
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface CircleZone extends GravityZoneBase {
+  kind: 'circle'
+  x: number
+  y: number
+  radius: number
+}
+
+export type GravityZone = RectangleZone | CircleZone
+
+/**
+ * A zone to add, before the manager gives it an id
+ */
+export type GravityZoneSpec = Omit<RectangleZone, 'id'> | Omit<CircleZone, 'id'>
+
+/** Distance (px) at which a well pulls with exactly its strength */
+export const WELL_REFERENCE_DISTANCE = 100
+
+/**
+ * Closer than this the pull stops growing - a body right on a well
+ * would otherwise be flung away at infinite speed
+ */
+const MINIMUM_WELL_DISTANCE = 40
+
+/**
+ * Is a point inside a zone?
+ */
+export function isInGravityZone(zone: GravityZone, point: Matter.Vector): boolean {
+  if (zone.kind === 'circle') {
+    return Math.hypot(point.x - zone.x, point.y - zone.y) <= zone.radius
+  }
+
+  return Math.abs(point.x - zone.x) <= zone.width / 2 && Math.abs(point.y - zone.y) <= zone.height / 2
+}
+
+/**
+ * Summed pull (in gravities) of every well at a point
+ */
+export function getPlanetaryGravity(wells: readonly GravityWell[], point: Matter.Vector): Matter.Vector {
+  return wells.reduce(
+    (total, well) => {
+      const dx = well.x - point.x
+      const dy = well.y - point.y
+      const distance = Math.hypot(dx, dy)
+      if (distance === 0) return total
+
+      const pull = well.strength * (WELL_REFERENCE_DISTANCE / Math.max(distance, MINIMUM_WELL_DISTANCE)) ** 2
+      return { x: total.x + (dx / distance) * pull, y: total.y + (dy / distance) * pull }
+    },
+    { x: 0, y: 0 }
+  )
+}
+
+export interface GravityState {
+  mode: GravityMode
+  wells: readonly GravityWell[]
+  zones: readonly GravityZone[]
+}
+
+/**
+ * Do the wells pull right now? Only in planetary mode, and only if
+ * there is at least one (otherwise engine gravity applies).
+ */
+export function areWellsActive(state: GravityState): boolean {
+  return state.mode === 'planetary' && state.wells.length > 0
+}
+
+/**
+ * The gravity a body at `point` should feel, or null for plain engine gravity
+ */
+export function getGravityAt(state: GravityState, point: Matter.Vector): Matter.Vector | null {
+  // Last added wins, so search from the end
+  for (let i = state.zones.length - 1; i >= 0; i--) {
+    if (isInGravityZone(state.zones[i], point)) return state.zones[i].gravity
+  }
+
+  return areWellsActive(state) ? getPlanetaryGravity(state.wells, point) : null
+}
+
+/**
+ * Add the correction force to every awake dynamic body
+ */
+export function applyGravityState(engine: Matter.Engine, state: GravityState) {
+  if (!areWellsActive(state) && state.zones.length === 0) return
+
+  const { gravity } = engine
+
+  engine.world.bodies.forEach((body) => {
+    if (body.isStatic || body.isSleeping) return
+
+    const wanted = getGravityAt(state, body.position)
+    if (!wanted) return
+
+    // Matter adds engine.gravity right after this - cancel it out
+    body.force.x += body.mass * (wanted.x - gravity.x) * gravity.scale
+    body.force.y += body.mass * (wanted.y - gravity.y) * gravity.scale
+  })
+}
+
+/**
+ * Fired on the manager whenever the mode, a well or a zone changes
+ */
+export interface GravityChangedEvent {
+  state: GravityState
+}
+
+/**
+ * Holds the gravity mode, wells and zones, and applies them to a PhysicsWorld
+ *
+ * Survives world rebuilds like the other managers: attach() to the new
+ * world and the wells and zones are still there.
+ *
+ * Events (listen with Matter.Events.on(manager, ...)):
+ * - 'gravityChanged': GravityChangedEvent
+ */
+export class GravityManager {
+  private physics: PhysicsWorld | null = null
+  private state: GravityState = { mode: 'uniform', wells: [], zones: [] }
+  private nextId = 1
+
+  /**
+   * Start bending gravity in a world (detaches from the previous one)
+   */
+  attach(physics: PhysicsWorld) {
+    this.detach()
+    this.physics = physics
+
+    Events.on(physics.engine, 'beforeUpdate', this.handleBeforeUpdate)
+  }
+
+  detach() {
+    if (!this.physics) return
+
+    Events.off(this.physics.engine, 'beforeUpdate', this.handleBeforeUpdate)
+    this.physics = null
+  }
+
+  /**
+   * The current mode, wells and zones
+   *
+   * The object is replaced (never mutated) on every change.
+   */
+  getState(): GravityState {
+    return this.state
+  }
+
+  setMode(mode: GravityMode) {
+    if (mode !== this.state.mode) this.setState({ mode })
+  }
+
+  /**
+   * Add a well at (x, y). Returns it with its new id.
+   */
+  addWell(x: number, y: number, strength: number = 1): GravityWell {
+    const well: GravityWell = { id: this.nextId++, x, y, strength }
+    this.setState({ wells: [...this.state.wells, well] })
+    return well
+  }
+
+  /**
+   * Add a zone. Returns it with its new id.
+   */
+  addZone(spec: GravityZoneSpec): GravityZone {
+    const id = this.nextId++
+    const zone: GravityZone = spec.kind === 'circle' ? { ...spec, id } : { ...spec, id }
+    this.setState({ zones: [...this.state.zones, zone] })
+    return zone
+  }
+
+  /**
+   * Remove a well or a zone. Returns false if there was no such id.
+   */
+  remove(id: number): boolean {
+    const wells = this.state.wells.filter((well) => well.id !== id)
+    const zones = this.state.zones.filter((zone) => zone.id !== id)
+    if (wells.length === this.state.wells.length && zones.length === this.state.zones.length) return false
+
+    this.setState({ wells, zones })
+    return true
+  }
+
+  /**
+   * Remove every well and zone (the mode stays)
+   */
+  clear() {
+    this.setState({ wells: [], zones: [] })
+  }
+
+  private setState(changes: Partial<GravityState>) {
+    this.state = { ...this.state, ...changes }
+
+    // Sleeping bodies skip gravity - wake them so the change shows right away
+    this.physics?.wakeAll()
+
+    const event: GravityChangedEvent = { state: this.state }
+    Events.trigger(this, 'gravityChanged', event)
+  }
+
+  private handleBeforeUpdate = () => {
+    if (this.physics) applyGravityState(this.physics.engine, this.state)
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * EXPLAINER: Keyboard Shortcuts
+ *
+ * Shortcuts like Space (pause) or Delete (remove an obstacle) listen
+ * on the whole window, so they also hear keys meant for a text field.
+ * Each shortcut handler asks isTypingTarget first and stays out of the
+ * way while the user is typing.
+ */
+
+/**
+ * Don't steal keys while the user types in a form field
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  )
+}
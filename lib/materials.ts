@@ -0,0 +1,67 @@
+/**
+ * EXPLAINER: Materials
+ *
+ * Helpers around MATERIAL_PRESETS (lib/matter-config.ts):
+ * - getMaterialPhysics('ice') - the physical values of a preset
+ * - applyMaterial(body, 'steel') - turn an existing body into steel
+ * - getBodyMaterial(body) - which preset a body is made of (if any)
+ *
+ * The preset name is stored on body.plugin.material - Matter.js keeps
+ * body.plugin free for our own data. The renderer reads it to draw
+ * the preset's pattern and border.
+ *
+ * CHALLENGE: Drag a shape, then in the console run
+ * applyMaterial(body, 'balloon') - watch it float away!
+ */
+
+import Matter from 'matter-js'
+import { MATERIAL_PRESETS } from './matter-config'
+import type { MaterialSettings } from './settings-store'
+
+const { Body } = Matter
+
+export type MaterialName = keyof typeof MATERIAL_PRESETS
+
+export type MaterialPreset = (typeof MATERIAL_PRESETS)[MaterialName]
+
+/**
+ * Texture drawn over the fill color ('none' = plain fill)
+ */
+export type FillPattern = MaterialPreset['pattern']
+
+export const MATERIAL_NAMES = Object.keys(MATERIAL_PRESETS) as MaterialName[]
+
+export function isMaterialName(value: unknown): value is MaterialName {
+  return typeof value === 'string' && Object.hasOwn(MATERIAL_PRESETS, value)
+}
+
+/**
+ * Physical values of a preset, in the same shape as the settings material
+ */
+export function getMaterialPhysics(name: MaterialName): MaterialSettings {
+  const { restitution, friction, frictionAir, density } = MATERIAL_PRESETS[name]
+  return { restitution, friction, frictionAir, density }
+}
+
+/**
+ * The preset a body was made from, or undefined for custom materials
+ */
+export function getBodyMaterial(body: Matter.Body): MaterialName | undefined {
+  const material: unknown = body.plugin?.material
+  return isMaterialName(material) ? material : undefined
+}
+
+/**
+ * Give an existing body the physics (and look) of a preset
+ */
+export function applyMaterial(body: Matter.Body, name: MaterialName) {
+  const { restitution, friction, frictionAir, density } = getMaterialPhysics(name)
+
+  body.restitution = restitution
+  body.friction = friction
+  body.frictionAir = frictionAir
+  // setDensity also updates mass and inertia
+  Body.setDensity(body, density)
+
+  body.plugin = { ...body.plugin, material: name }
+}
@@ -10,6 +10,9 @@
  * - What about gravity.x = 0.5? (horizontal wind effect pushing everything right)
  * - Try enableSleeping: false - notice the performance impact in DevTools
  *
+ * These are the STARTING values. The settings panel changes the live
+ * copies in lib/settings-store.ts while the simulation runs.
+ *
  * Docs: https://brm.io/matter-js/docs/classes/Engine.html
  */
 
@@ -109,9 +112,17 @@ export const RENDER_CONFIG = {
 
   /**
    * Show collision debug info
-   * Useful for learning! Set to true to see collision points
+   * Useful for learning! Set to true to see collision points,
+   * bounding boxes, velocities and sleeping bodies
+   * (toggle it live with "Debug view" in the settings panel)
    */
   showDebug: false,
+
+  /**
+   * Show the performance HUD (FPS, step time, body counts)
+   * CHALLENGE 5B: Turn it on and compare FPS with 100+ shapes!
+   */
+  showPerformance: false,
 } as const
 
 /**
@@ -129,6 +140,7 @@ export const TIMING_CONFIG = {
    *
    * CHALLENGE: Set to 0.1 to watch physics in slow-motion!
    * Great for understanding collisions.
+   * (In the app: press 1 for 0.1x, Space to pause, . to step one frame)
    */
   timeScale: 1,
 } as const
@@ -184,6 +196,68 @@ export const BODY_DEFAULTS = {
   density: 0.001,
 } as const
 
+/**
+ * EXPLAINER: Material Presets
+ *
+ * BODY_DEFAULTS is one material for everything. Presets are named
+ * materials you can pick per spawn (settings panel) or per body
+ * (createShape({ ..., material: 'steel' }) or applyMaterial()).
+ *
+ * Each preset also has VISUAL hints, so you can tell them apart:
+ * - pattern: texture drawn over the fill color
+ * - lineWidth: border thickness (steel = heavy, balloon = thin)
+ *
+ * CHALLENGE 2A: Spawn a burst of balloons, then a burst of steel.
+ * Which ends up on top? Why?
+ */
+export const MATERIAL_PRESETS = {
+  rubber: {
+    label: 'Rubber',
+    restitution: 0.9,
+    friction: 0.9,
+    frictionAir: 0.01,
+    density: 0.0015,
+    pattern: 'dots',
+    lineWidth: 3,
+  },
+  ice: {
+    label: 'Ice',
+    restitution: 0.05,
+    friction: 0.005,
+    frictionAir: 0.002,
+    density: 0.0009,
+    pattern: 'shine',
+    lineWidth: 1,
+  },
+  wood: {
+    label: 'Wood',
+    restitution: 0.3,
+    friction: 0.6,
+    frictionAir: 0.01,
+    density: 0.0007,
+    pattern: 'grain',
+    lineWidth: 2,
+  },
+  steel: {
+    label: 'Steel',
+    restitution: 0.15,
+    friction: 0.4,
+    frictionAir: 0.005,
+    density: 0.008,
+    pattern: 'crosshatch',
+    lineWidth: 4,
+  },
+  balloon: {
+    label: 'Balloon',
+    restitution: 0.6,
+    friction: 0.1,
+    frictionAir: 0.08,
+    density: 0.0001,
+    pattern: 'none',
+    lineWidth: 0.5,
+  },
+} as const
+
 /**
  * Neubrutalist color palette
  * Bright, high-contrast colors with thick black borders
@@ -243,3 +317,35 @@ export const CULLING_CONFIG = {
    */
   bufferZone: 500,
 } as const
+
+/**
+ * EXPLAINER: Body Lifecycle
+ *
+ * Rules for removing bodies so they don't pile up forever.
+ * See lib/body-lifecycle.ts for how each rule works.
+ * A value of 0 turns that rule off.
+ *
+ * CHALLENGE 5C: Set maxBodies to 50 and keep spawning.
+ * Watch the oldest shapes vanish first!
+ */
+export const LIFECYCLE_CONFIG = {
+  /**
+   * Remove bodies below the screen (+ CULLING_CONFIG.bufferZone)
+   */
+  cullOffscreen: true,
+
+  /**
+   * Maximum number of dynamic bodies - oldest are removed first
+   */
+  maxBodies: 400,
+
+  /**
+   * Seconds before any body expires (0 = live forever)
+   */
+  timeToLive: 0,
+
+  /**
+   * Seconds a body may sleep before it's removed (0 = never)
+   */
+  sleepTimeout: 0,
+} as const
@@ -0,0 +1,289 @@
+/**
+ * EXPLAINER: Obstacles
+ *
+ * Besides the floor and the side walls, you can build your own static
+ * scenery - Plinko boards, marble runs, shelves:
+ * - line: a thin stick from where you pressed to where you let go
+ * - ramp: a solid wedge whose slope runs along your drag
+ * - platform: a thick, level slab as wide as your drag
+ * - peg: a small round pin (just click instead of dragging)
+ *
+ * Obstacles are static bodies (isStatic: true), exactly like the walls:
+ * infinite mass, they never move by themselves, and everything bounces
+ * off them. Unlike the walls they are drawn, and they remember their
+ * kind on body.plugin.obstacle.
+ *
+ * The ObstacleManager keeps them across world rebuilds, and tracks the
+ * selected one (to move or delete it). The build tool (lib/tools.ts)
+ * drives it with the pointer.
+ *
+ * CHALLENGE: Build a Plinko board - rows of pegs, each row shifted by
+ * half a gap - and rain shapes on it. Do they pile up in a bell curve?
+ */
+
+import Matter from 'matter-js'
+import type { PhysicsWorld } from './physics-world'
+
+const { Bodies, Body, Events, Query, Vector, Vertices } = Matter
+
+export type ObstacleKind = 'line' | 'ramp' | 'platform' | 'peg'
+
+/** Obstacles drawn by dragging (pegs are placed with a click) */
+export type DrawnObstacleKind = Exclude<ObstacleKind, 'peg'>
+
+export const DRAWN_OBSTACLE_KINDS: readonly DrawnObstacleKind[] = ['line', 'ramp', 'platform']
+
+export type ObstacleSpec =
+  | { kind: 'peg'; x: number; y: number }
+  | { kind: DrawnObstacleKind; start: Matter.Vector; end: Matter.Vector }
+
+/** Thickness of a line (px) */
+const LINE_THICKNESS = 10
+
+/** Thickness of a platform (px) */
+const PLATFORM_THICKNESS = 24
+
+/** Flattest ramp: its high end is at least this far above the low one (px) */
+const MINIMUM_RAMP_HEIGHT = 10
+
+/** Shortest drawn obstacle - anything shorter would be a sliver (px) */
+export const MINIMUM_OBSTACLE_LENGTH = 12
+
+/**
+ * Smaller outlines are rejected (px²). fromVertices can't find the
+ * centre of a flat shape - it would end up at NaN.
+ */
+const MINIMUM_OBSTACLE_AREA = 10
+
+export const PEG_RADIUS = 8
+
+/** Obstacles are white, so the colorful shapes stand out against them */
+const OBSTACLE_COLOR = '#FFFFFF'
+
+/**
+ * The outline of a drawn obstacle, in world coordinates
+ */
+export function getObstacleVertices(
+  kind: DrawnObstacleKind,
+  start: Matter.Vector,
+  end: Matter.Vector
+): Matter.Vector[] {
+  if (kind === 'platform') {
+    // Level, at the height where the drag started
+    const left = Math.min(start.x, end.x)
+    const right = Math.max(left + MINIMUM_OBSTACLE_LENGTH, Math.max(start.x, end.x))
+    const top = start.y - PLATFORM_THICKNESS / 2
+
+    return [
+      { x: left, y: top },
+      { x: right, y: top },
+      { x: right, y: top + PLATFORM_THICKNESS },
+      { x: left, y: top + PLATFORM_THICKNESS },
+    ]
+  }
+
+  if (kind === 'ramp') {
+    // The drag is the slope; the solid part fills in underneath it
+    const [high, low] = start.y <= end.y ? [start, end] : [end, start]
+    const bottom = Math.max(low.y, high.y + MINIMUM_RAMP_HEIGHT)
+    // A (nearly) vertical drag still gets a minimum run, like lines and
+    // platforms get a minimum length - otherwise the wedge is flat
+    const run = low.x - high.x
+    const lowX =
+      Math.abs(run) >= MINIMUM_OBSTACLE_LENGTH ? low.x : high.x + Math.sign(run || 1) * MINIMUM_OBSTACLE_LENGTH
+
+    return [{ ...high }, { x: lowX, y: bottom }, { x: high.x, y: bottom }]
+  }
+
+  // A line: a thin rectangle around the segment
+  const length = Math.max(Vector.magnitude(Vector.sub(end, start)), MINIMUM_OBSTACLE_LENGTH)
+  const angle = Math.atan2(end.y - start.y, end.x - start.x)
+  const direction = { x: Math.cos(angle), y: Math.sin(angle) }
+  const side = Vector.mult(Vector.perp(direction), LINE_THICKNESS / 2)
+  const tip = Vector.add(start, Vector.mult(direction, length))
+
+  return [Vector.add(start, side), Vector.add(tip, side), Vector.sub(tip, side), Vector.sub(start, side)]
+}
+
+/**
+ * Build a static obstacle body (not added to any world yet)
+ *
+ * Throws if the outline is too flat to have an area.
+ */
+export function createObstacle(spec: ObstacleSpec): Matter.Body {
+  const options: Matter.IChamferableBodyDefinition = {
+    isStatic: true,
+    label: 'Obstacle',
+    friction: 0.1,
+    render: { fillStyle: OBSTACLE_COLOR },
+    plugin: { obstacle: spec.kind },
+  }
+
+  if (spec.kind === 'peg') {
+    // Pegs are a little bouncy, like the pins of a pinball machine
+    return Bodies.circle(spec.x, spec.y, PEG_RADIUS, { ...options, restitution: 0.5 })
+  }
+
+  const vertices = getObstacleVertices(spec.kind, spec.start, spec.end)
+  if (Vertices.area(vertices, false) < MINIMUM_OBSTACLE_AREA) {
+    throw new Error(`Obstacle outline has no area: ${JSON.stringify(vertices)}`)
+  }
+
+  const body = Bodies.fromVertices(0, 0, [vertices], options)
+
+  // fromVertices centers the shape on (0, 0) - put it back where it was drawn
+  Body.setPosition(body, Vertices.centre(vertices))
+
+  return body
+}
+
+/**
+ * The kind of obstacle a body is, or undefined for any other body
+ */
+export function getObstacleKind(body: Matter.Body): ObstacleKind | undefined {
+  const kind: unknown = body.plugin?.obstacle
+  return kind === 'peg' || DRAWN_OBSTACLE_KINDS.includes(kind as DrawnObstacleKind)
+    ? (kind as ObstacleKind)
+    : undefined
+}
+
+/**
+ * Fired on the manager whenever obstacles are added, moved, removed or selected
+ */
+export interface ObstaclesChangedEvent {
+  obstacles: readonly Matter.Body[]
+  selected: Matter.Body | null
+}
+
+/**
+ * Holds the obstacles and keeps them in a PhysicsWorld
+ *
+ * Survives world rebuilds like the other managers: attach() to the new
+ * world and the obstacles are added to it.
+ *
+ * Events (listen with Matter.Events.on(manager, ...)):
+ * - 'obstaclesChanged': ObstaclesChangedEvent
+ */
+export class ObstacleManager {
+  private physics: PhysicsWorld | null = null
+  private obstacles: Matter.Body[] = []
+  private selected: Matter.Body | null = null
+
+  /**
+   * Put the obstacles in a world (takes them out of the previous one)
+   */
+  attach(physics: PhysicsWorld) {
+    this.detach()
+    this.physics = physics
+
+    if (this.obstacles.length > 0) physics.addBody(this.obstacles)
+  }
+
+  detach() {
+    if (!this.physics) return
+
+    if (this.obstacles.length > 0) this.physics.removeBody(this.obstacles)
+    this.physics = null
+  }
+
+  /**
+   * Every obstacle, oldest first. The array is replaced on every change.
+   */
+  getObstacles(): readonly Matter.Body[] {
+    return this.obstacles
+  }
+
+  getSelected(): Matter.Body | null {
+    return this.selected
+  }
+
+  /**
+   * Topmost obstacle at a point, if any
+   */
+  getObstacleAt(point: Matter.Vector): Matter.Body | undefined {
+    return Query.point([...this.obstacles], point).at(-1)
+  }
+
+  /**
+   * Build an obstacle and add it to the world. Returns the new body, or
+   * null if the spec was too flat to build (nothing is added then).
+   */
+  add(spec: ObstacleSpec): Matter.Body | null {
+    let body: Matter.Body
+    try {
+      body = createObstacle(spec)
+    } catch {
+      return null
+    }
+
+    this.obstacles = [...this.obstacles, body]
+    this.physics?.addBody(body)
+    this.changed()
+
+    return body
+  }
+
+  /**
+   * Move an obstacle so its center is at `position`
+   */
+  move(body: Matter.Body, position: Matter.Vector) {
+    if (!this.obstacles.includes(body)) return
+
+    Body.setPosition(body, position)
+    // Shapes resting on it would not notice otherwise
+    this.physics?.wakeAll()
+    this.changed()
+  }
+
+  /**
+   * Remove an obstacle. Returns false if it wasn't one of ours.
+   */
+  remove(body: Matter.Body): boolean {
+    if (!this.obstacles.includes(body)) return false
+
+    this.obstacles = this.obstacles.filter((obstacle) => obstacle !== body)
+    if (this.selected === body) this.selected = null
+
+    this.physics?.removeBody(body)
+    this.physics?.wakeAll()
+    this.changed()
+
+    return true
+  }
+
+  /**
+   * Remove the selected obstacle, if any
+   */
+  removeSelected(): boolean {
+    return this.selected ? this.remove(this.selected) : false
+  }
+
+  /**
+   * Select an obstacle (null clears the selection)
+   */
+  select(body: Matter.Body | null) {
+    const selected = body && this.obstacles.includes(body) ? body : null
+    if (selected === this.selected) return
+
+    this.selected = selected
+    this.changed()
+  }
+
+  /**
+   * Remove every obstacle
+   */
+  clear() {
+    if (this.obstacles.length === 0) return
+
+    this.physics?.removeBody(this.obstacles)
+    this.physics?.wakeAll()
+    this.obstacles = []
+    this.selected = null
+    this.changed()
+  }
+
+  private changed() {
+    const event: ObstaclesChangedEvent = { obstacles: this.obstacles, selected: this.selected }
+    Events.trigger(this, 'obstaclesChanged', event)
+  }
+}
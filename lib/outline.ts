@@ -0,0 +1,306 @@
+/**
+ * EXPLAINER: Outlines
+ *
+ * Stars, imported SVG icons, freehand drawings (lib/freehand.ts) and
+ * other custom shapes are described by their OUTLINE: one or more
+ * closed rings of points.
+ *
+ * Matter.js only collides CONVEX polygons. A concave outline (a star,
+ * a heart, a lightning bolt) is cut into convex pieces with
+ * poly-decomp, and the pieces become the parts of one compound body.
+ *
+ * The pieces are great for physics, but you'd see every cut if we drew
+ * them. So the original rings are kept on body.plugin.outline
+ * (relative to the body centre, unrotated) and the renderer draws
+ * those instead.
+ *
+ * A ring inside another ring is a hole - think of the letter "o".
+ * poly-decomp can't handle holes, so an outline with holes is
+ * triangulated instead (earcut, which cuts around holes) and the
+ * triangles are merged back into as few convex pieces as possible.
+ * Other shapes can fall INTO the hole of an "o"!
+ *
+ * CHALLENGE: Turn on the debug view and spawn stars. The dashed
+ * bounding boxes show how each star is split into pieces!
+ */
+
+import Matter from 'matter-js'
+import decomp from 'poly-decomp'
+import earcut from 'earcut'
+
+const { Body, Vector, Vertices } = Matter
+
+/**
+ * Same clean-up values as Bodies.fromVertices
+ */
+const REMOVE_COLLINEAR = 0.01
+const REMOVE_DUPLICATES = 0.01
+/** Pieces smaller than this (px²) are dropped - slivers only cause jitter */
+const MINIMUM_PART_AREA = 10
+
+/**
+ * A solid ring and the holes cut into it
+ */
+export interface OutlineGroup {
+  outer: Matter.Vector[]
+  holes: Matter.Vector[][]
+}
+
+/**
+ * Signed area of a ring (shoelace formula)
+ *
+ * The sign tells the winding: positive is clockwise on screen
+ * (y points down).
+ */
+export function getRingArea(ring: Matter.Vector[]): number {
+  let area = 0
+
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i]
+    const b = ring[(i + 1) % ring.length]
+    area += a.x * b.y - b.x * a.y
+  }
+
+  return area / 2
+}
+
+/**
+ * Is the point inside the ring? (ray casting)
+ */
+export function isPointInRing(point: Matter.Vector, ring: Matter.Vector[]): boolean {
+  let inside = false
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i]
+    const b = ring[j]
+
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+
+  return inside
+}
+
+/**
+ * Sort rings into solids and their holes
+ *
+ * A ring inside an odd number of other rings is a hole; inside an even
+ * number (usually zero) it is solid again - the island in a donut hole.
+ */
+export function groupRings(rings: Matter.Vector[][]): OutlineGroup[] {
+  const containers = rings.map((ring, index) =>
+    rings.filter((other, otherIndex) => otherIndex !== index && isPointInRing(ring[0], other))
+  )
+
+  const groups = new Map<Matter.Vector[], OutlineGroup>()
+
+  rings.forEach((ring, index) => {
+    if (containers[index].length % 2 === 0) {
+      groups.set(ring, { outer: ring, holes: [] })
+    }
+  })
+
+  rings.forEach((ring, index) => {
+    if (containers[index].length % 2 === 0) return
+
+    // The smallest solid ring around a hole is the one it belongs to
+    const parent = containers[index]
+      .filter((container) => groups.has(container))
+      .sort((a, b) => Math.abs(getRingArea(a)) - Math.abs(getRingArea(b)))[0]
+
+    groups.get(parent)?.holes.push(ring)
+  })
+
+  return [...groups.values()]
+}
+
+/**
+ * Center rings on (0, 0) and scale them so the longer side is `size`
+ *
+ * Handy for imported outlines, which come in whatever size and
+ * position they were drawn at.
+ */
+export function fitRings(rings: Matter.Vector[][], size: number): Matter.Vector[][] {
+  const bounds = Matter.Bounds.create(rings.flat())
+  const width = bounds.max.x - bounds.min.x
+  const height = bounds.max.y - bounds.min.y
+  const scale = size / Math.max(width, height, Number.EPSILON)
+  const centre = { x: (bounds.min.x + bounds.max.x) / 2, y: (bounds.min.y + bounds.max.y) / 2 }
+
+  return rings.map((ring) => ring.map((point) => Vector.mult(Vector.sub(point, centre), scale)))
+}
+
+/**
+ * Split a solid ring into convex pieces
+ *
+ * Same steps as Bodies.fromVertices: make the winding consistent, drop
+ * collinear and duplicate points, then Bayazit's quick decomposition.
+ */
+function decomposeRing(ring: Matter.Vector[]): Matter.Vector[][] {
+  if (Vertices.isConvex(ring)) {
+    return [Vertices.clockwiseSort(ring.map((point) => ({ ...point })))]
+  }
+
+  const polygon: [number, number][] = ring.map((point) => [point.x, point.y])
+  decomp.makeCCW(polygon)
+  decomp.removeCollinearPoints(polygon, REMOVE_COLLINEAR)
+  decomp.removeDuplicatePoints(polygon, REMOVE_DUPLICATES)
+
+  // Self-crossing outlines can't be decomposed - their hull still collides
+  if (!decomp.isSimple(polygon)) {
+    // Typed as full vertices, but hull only reads x and y
+    return [Vertices.hull(ring.map((point) => ({ ...point })) as Matter.Vertex[])]
+  }
+
+  return decomp
+    .quickDecomp(polygon)
+    .map((piece) => piece.map(([x, y]) => ({ x, y })))
+    .filter((piece) => Math.abs(getRingArea(piece)) >= MINIMUM_PART_AREA)
+}
+
+/**
+ * Join two convex pieces that share the edge a -> b
+ *
+ * `first` runs a -> b, `second` runs b -> a (same winding).
+ */
+function joinPieces(first: number[], second: number[], a: number, b: number): number[] {
+  const start = first.indexOf(b)
+  const end = second.indexOf(a)
+  // first from b around to a, then second from a around to b (without repeating them)
+  const fromFirst = [...first.slice(start), ...first.slice(0, start)]
+  const fromSecond = [...second.slice(end), ...second.slice(0, end)].slice(1, -1)
+
+  return [...fromFirst, ...fromSecond]
+}
+
+/**
+ * Split a solid ring with holes into convex pieces
+ *
+ * 1. earcut triangulates the ring around its holes
+ * 2. Neighbouring triangles are merged while the result stays convex
+ *    (Hertel-Mehlhorn: at most 4x the best possible piece count)
+ */
+function decomposeWithHoles(group: OutlineGroup): Matter.Vector[][] {
+  const points = [group.outer, ...group.holes].flat()
+  const holeIndices: number[] = []
+  group.holes.reduce((index, hole) => {
+    holeIndices.push(index)
+    return index + hole.length
+  }, group.outer.length)
+
+  const indices = earcut(points.flatMap((point) => [point.x, point.y]), holeIndices)
+
+  // Every piece is a list of point indices, all wound the same way
+  const pieces: (number[] | null)[] = []
+  for (let i = 0; i < indices.length; i += 3) {
+    const triangle = indices.slice(i, i + 3)
+    const area = getRingArea(triangle.map((index) => points[index]))
+    if (area !== 0) pieces.push(area > 0 ? triangle : triangle.reverse())
+  }
+
+  // Which piece owns each directed edge "a>b"
+  const edgeOwners = new Map<string, number>()
+  const claimEdges = (id: number) => {
+    const piece = pieces[id] ?? []
+    piece.forEach((a, k) => edgeOwners.set(`${a}>${piece[(k + 1) % piece.length]}`, id))
+  }
+  pieces.forEach((_, id) => claimEdges(id))
+
+  for (const edge of [...edgeOwners.keys()]) {
+    const [a, b] = edge.split('>').map(Number)
+    const first = edgeOwners.get(`${a}>${b}`)
+    const second = edgeOwners.get(`${b}>${a}`)
+    if (first === undefined || second === undefined || first === second) continue
+
+    const joined = joinPieces(pieces[first] ?? [], pieces[second] ?? [], a, b)
+    if (!Vertices.isConvex(joined.map((index) => points[index]))) continue
+
+    pieces[first] = joined
+    pieces[second] = null
+    edgeOwners.delete(`${a}>${b}`)
+    edgeOwners.delete(`${b}>${a}`)
+    claimEdges(first)
+  }
+
+  return pieces
+    .filter((piece): piece is number[] => piece !== null)
+    .map((piece) => piece.map((index) => ({ ...points[index] })))
+    .filter((piece) => Math.abs(getRingArea(piece)) >= MINIMUM_PART_AREA)
+}
+
+/**
+ * Centre of mass of an outline (holes take their area away)
+ */
+export function getOutlineCentroid(rings: Matter.Vector[][]): Matter.Vector {
+  let totalArea = 0
+  let sum = { x: 0, y: 0 }
+
+  groupRings(rings).forEach((group) => {
+    const signed = [
+      { ring: group.outer, sign: 1 },
+      ...group.holes.map((ring) => ({ ring, sign: -1 })),
+    ]
+
+    signed.forEach(({ ring, sign }) => {
+      const area = Math.abs(getRingArea(ring)) * sign
+      totalArea += area
+      sum = Vector.add(sum, Vector.mult(Vertices.centre(ring), area))
+    })
+  })
+
+  return totalArea === 0 ? { x: 0, y: 0 } : Vector.div(sum, totalArea)
+}
+
+/**
+ * Build one body from outline rings, with its centre of mass at (x, y)
+ *
+ * Why not Bodies.fromVertices? It centres every convex ring on (x, y)
+ * and rotates each part around its own centre, so an icon made of
+ * several paths would collapse into one spot. We follow its recipe
+ * (one part per convex piece, options on each part and the parent)
+ * but keep every ring where it was drawn.
+ *
+ * Throws if the outline has no solid area to collide with.
+ */
+export function createOutlineBody(
+  x: number,
+  y: number,
+  rings: Matter.Vector[][],
+  options: Matter.IBodyDefinition = {}
+): Matter.Body {
+  const { angle = 0, ...partOptions } = options
+
+  const pieces = groupRings(rings).flatMap((group) =>
+    group.holes.length > 0 ? decomposeWithHoles(group) : decomposeRing(group.outer)
+  )
+  if (pieces.length === 0) {
+    throw new Error('Outline has no solid area to build a body from')
+  }
+
+  const parts = pieces.map((vertices) =>
+    Body.create({ ...partOptions, position: Vertices.centre(vertices), vertices })
+  )
+  const body = parts.length === 1 ? parts[0] : Body.create({ ...partOptions, parts })
+
+  // The body sits at the centre of mass of its pieces - the outline
+  // is stored relative to that same point
+  const centre = { ...body.position }
+  const outline = rings.map((ring) => ring.map((point) => Vector.sub(point, centre)))
+
+  body.plugin = { ...body.plugin, outline }
+
+  Body.setPosition(body, { x, y })
+  Body.setAngle(body, angle)
+
+  return body
+}
+
+/**
+ * The outline rings of a body (relative to its centre, unrotated),
+ * or undefined for plain circles and polygons
+ */
+export function getBodyOutline(body: Matter.Body): Matter.Vector[][] | undefined {
+  const outline: unknown = body.plugin?.outline
+  return Array.isArray(outline) ? (outline as Matter.Vector[][]) : undefined
+}
@@ -0,0 +1,225 @@
+/**
+ * EXPLAINER: Performance Monitor
+ *
+ * The config comments keep saying "compare FPS with 100+ shapes".
+ * This is the measuring tape:
+ * - Render FPS: time between frames of the render loop
+ * - Step time: how long one Engine.update takes (the physics cost),
+ *   including the force field and gravity forces added right before it
+ * - Active vs sleeping bodies
+ * - Broadphase pairs: body pairs whose bounding boxes overlap - the
+ *   candidates the detector has to test shape against shape
+ *
+ * Every number is kept for the last few seconds in a RollingSeries,
+ * so the HUD can draw little graphs.
+ *
+ * How the data gets in:
+ * - attach(engine) times every update with the engine's
+ *   'beforeUpdate' / 'afterUpdate' events (the Runner fires those)
+ * - the render loop calls recordFrame() once per drawn frame
+ *
+ * CHALLENGE 5A: Open the HUD, spawn 200 shapes and toggle
+ * "Sleeping" in the settings. Watch the step time graph!
+ */
+
+import Matter from 'matter-js'
+
+const { Composite, Detector, Events } = Matter
+
+/**
+ * Samples kept per series - 5 seconds at 60 FPS
+ */
+const HISTORY_SIZE = 300
+
+/**
+ * Fixed-size history of numbers - the oldest value falls off the end
+ */
+export class RollingSeries {
+  private readonly samples: Float32Array
+  private start = 0
+  private count = 0
+
+  constructor(readonly capacity: number = HISTORY_SIZE) {
+    this.samples = new Float32Array(capacity)
+  }
+
+  push(value: number) {
+    const index = (this.start + this.count) % this.capacity
+
+    this.samples[index] = value
+    if (this.count < this.capacity) {
+      this.count++
+    } else {
+      this.start = (this.start + 1) % this.capacity
+    }
+  }
+
+  get length(): number {
+    return this.count
+  }
+
+  /**
+   * Oldest first
+   */
+  values(): number[] {
+    const values: number[] = []
+    for (let i = 0; i < this.count; i++) {
+      values.push(this.samples[(this.start + i) % this.capacity])
+    }
+    return values
+  }
+
+  latest(): number {
+    return this.count === 0 ? 0 : this.samples[(this.start + this.count - 1) % this.capacity]
+  }
+
+  average(): number {
+    if (this.count === 0) return 0
+
+    let sum = 0
+    for (let i = 0; i < this.count; i++) {
+      sum += this.samples[(this.start + i) % this.capacity]
+    }
+    return sum / this.count
+  }
+
+  max(): number {
+    let max = 0
+    for (let i = 0; i < this.count; i++) {
+      max = Math.max(max, this.samples[(this.start + i) % this.capacity])
+    }
+    return max
+  }
+
+  clear() {
+    this.start = 0
+    this.count = 0
+  }
+}
+
+/**
+ * Count the broadphase pairs, the way Matter's Detector finds them:
+ * sort by left edge, sweep to the right, keep pairs whose bounds also
+ * overlap vertically. Pairs that can't collide (two static or sleeping
+ * bodies, or a collision filter saying no) never reach the detector's
+ * shape test, so they don't count.
+ */
+export function countBroadphasePairs(bodies: readonly Matter.Body[]): number {
+  const sorted = [...bodies].sort((a, b) => a.bounds.min.x - b.bounds.min.x)
+  let count = 0
+
+  for (let i = 0; i < sorted.length; i++) {
+    const bodyA = sorted[i]
+    const isRestingA = bodyA.isStatic || bodyA.isSleeping
+
+    for (let j = i + 1; j < sorted.length; j++) {
+      const bodyB = sorted[j]
+
+      // Sorted by left edge: everything further right starts past bodyA too
+      if (bodyB.bounds.min.x > bodyA.bounds.max.x) break
+      if (bodyB.bounds.min.y > bodyA.bounds.max.y || bodyB.bounds.max.y < bodyA.bounds.min.y) continue
+      if (isRestingA && (bodyB.isStatic || bodyB.isSleeping)) continue
+      if (!Detector.canCollide(bodyA.collisionFilter, bodyB.collisionFilter)) continue
+
+      count++
+    }
+  }
+
+  return count
+}
+
+export interface PerfStats {
+  /** Render frames per second (averaged over the history) */
+  fps: number
+  /** Average Engine.update duration (ms) */
+  stepMs: number
+  activeBodies: number
+  sleepingBodies: number
+  /** Broadphase pairs (overlapping bounding boxes) after the last update */
+  broadphasePairs: number
+}
+
+/**
+ * Collects frame and engine timings
+ *
+ * Like BodyLifecycleManager, it survives world rebuilds:
+ * attach() to a new engine and the history continues.
+ */
+export class PerfMonitor {
+  /** Render FPS per frame */
+  readonly fps = new RollingSeries()
+  /** Engine.update duration per update (ms) */
+  readonly stepMs = new RollingSeries()
+  /** Awake dynamic bodies per update */
+  readonly activeBodies = new RollingSeries()
+
+  private engine: Matter.Engine | null = null
+  private stepStartedAt = 0
+  private lastFrameAt: number | null = null
+  private sleepingBodies = 0
+  private broadphasePairs = 0
+
+  /**
+   * Start timing an engine (detaches from the previous one)
+   */
+  attach(engine: Matter.Engine) {
+    this.detach()
+    this.engine = engine
+
+    Events.on(engine, 'beforeUpdate', this.handleBeforeUpdate)
+    Events.on(engine, 'afterUpdate', this.handleAfterUpdate)
+  }
+
+  detach() {
+    if (!this.engine) return
+
+    Events.off(this.engine, 'beforeUpdate', this.handleBeforeUpdate)
+    Events.off(this.engine, 'afterUpdate', this.handleAfterUpdate)
+    this.engine = null
+  }
+
+  /**
+   * Call once per rendered frame with a performance.now() / rAF timestamp
+   */
+  recordFrame(timestamp: number) {
+    if (this.lastFrameAt !== null) {
+      const frameMs = timestamp - this.lastFrameAt
+      if (frameMs > 0) this.fps.push(1000 / frameMs)
+    }
+
+    this.lastFrameAt = timestamp
+  }
+
+  getStats(): PerfStats {
+    return {
+      fps: this.fps.average(),
+      stepMs: this.stepMs.average(),
+      activeBodies: this.activeBodies.latest(),
+      sleepingBodies: this.sleepingBodies,
+      broadphasePairs: this.broadphasePairs,
+    }
+  }
+
+  private handleBeforeUpdate = () => {
+    this.stepStartedAt = performance.now()
+  }
+
+  private handleAfterUpdate = () => {
+    const { engine } = this
+    if (!engine) return
+
+    this.stepMs.push(performance.now() - this.stepStartedAt)
+
+    let active = 0
+    let sleeping = 0
+    engine.world.bodies.forEach((body) => {
+      if (body.isStatic) return
+      if (body.isSleeping) sleeping++
+      else active++
+    })
+
+    this.activeBodies.push(active)
+    this.sleepingBodies = sleeping
+    this.broadphasePairs = countBroadphasePairs(Composite.allBodies(engine.world))
+  }
+}
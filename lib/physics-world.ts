@@ -0,0 +1,475 @@
+/**
+ * EXPLAINER: Headless Physics World
+ *
+ * Everything physics-only lives here - no React, no canvas, no DOM:
+ * 1. Creates the physics engine
+ * 2. Builds static boundaries (floor + side walls)
+ * 3. Adds / removes bodies (and composites like chains or ragdolls)
+ * 4. Steps the simulation by a fixed delta
+ * 5. Follows size changes without losing bodies
+ * 6. Cleans everything up
+ *
+ * Removing old or off-screen bodies is handled separately by
+ * lifecycle policies (lib/body-lifecycle.ts).
+ *
+ * Because it never touches the browser, the same class runs in:
+ * - the React app (useMatter is a thin adapter around it)
+ * - plain Node scripts and unit tests
+ * - web workers
+ *
+ * CHALLENGE: Run a simulation in Node!
+ * ```
+ * const physics = PhysicsWorld.create({ width: 800, height: 600 })
+ * physics.addBody(createCircle(400, 0))
+ * for (let i = 0; i < 120; i++) physics.step()
+ * console.log(physics.getDynamicBodies()[0].position)
+ * ```
+ *
+ * Docs: https://brm.io/matter-js/docs/classes/Engine.html
+ */
+
+import Matter from 'matter-js'
+import { PHYSICS_CONFIG, SLEEPING_CONFIG, TIMING_CONFIG } from './matter-config'
+
+const { Engine, World, Bodies, Body, Bounds, Composite, Events, Sleeping } = Matter
+
+/**
+ * Fixed simulation step: one 60 FPS frame
+ */
+export const DEFAULT_STEP_DELTA = 1000 / 60
+
+/**
+ * Thickness of the invisible walls (px)
+ */
+const WALL_THICKNESS = 50
+
+/**
+ * Every event Matter fires on an engine - destroy() clears them all
+ */
+const ENGINE_EVENTS = 'beforeUpdate afterUpdate beforeSolve collisionStart collisionActive collisionEnd'
+
+/**
+ * Engine settings that can change while the simulation runs
+ */
+export interface PhysicsSettings {
+  gravity: Matter.Vector
+  timeScale: number
+  enableSleeping: boolean
+  sleepThreshold: number
+  positionIterations: number
+  velocityIterations: number
+}
+
+export interface PhysicsWorldOptions extends Partial<PhysicsSettings> {
+  width: number
+  height: number
+}
+
+/**
+ * The static bodies that keep shapes on screen
+ */
+export interface Boundaries {
+  floor: Matter.Body
+  leftWall: Matter.Body
+  rightWall: Matter.Body
+}
+
+export class PhysicsWorld {
+  readonly engine: Matter.Engine
+  private boundaries: Boundaries | null = null
+  private size = { width: 0, height: 0 }
+  private sleepThreshold: number = SLEEPING_CONFIG.sleepThreshold
+  // Constraints added with addComposite() / addConstraint(), removed along with their bodies
+  private links = new Set<Matter.Constraint>()
+
+  private constructor(engine: Matter.Engine) {
+    this.engine = engine
+
+    // New bodies pick up the current sleep threshold
+    Events.on(engine.world, 'afterAdd', this.handleAfterAdd)
+    // Links to removed bodies would pull on nothing - remove them too
+    Events.on(engine.world, 'afterRemove', this.handleAfterRemove)
+  }
+
+  /**
+   * EXPLAINER: Engine Creation
+   *
+   * We pass configuration to control physics behavior:
+   * - gravity: How strong is the pull downward
+   * - enableSleeping: Should bodies at rest stop calculating?
+   * - positionIterations: How accurate should collision resolution be?
+   *
+   * CHALLENGE 1A: Try different gravity values!
+   * { x: 0, y: 2 } - double gravity (falls faster)
+   * { x: 0.5, y: 1 } - horizontal wind + gravity
+   * { x: 0, y: 0 } - zero gravity (space!)
+   */
+  static create({ width, height, ...settings }: PhysicsWorldOptions): PhysicsWorld {
+    const physics = new PhysicsWorld(Engine.create())
+
+    physics.configure({
+      gravity: PHYSICS_CONFIG.gravity,
+      timeScale: TIMING_CONFIG.timeScale,
+      enableSleeping: PHYSICS_CONFIG.enableSleeping,
+      sleepThreshold: SLEEPING_CONFIG.sleepThreshold,
+      positionIterations: PHYSICS_CONFIG.positionIterations,
+      velocityIterations: PHYSICS_CONFIG.velocityIterations,
+      ...settings,
+    })
+    physics.setBoundaries(width, height)
+
+    return physics
+  }
+
+  /**
+   * EXPLAINER: Live Settings
+   *
+   * Everything here can change mid-simulation - no need to rebuild
+   * the world. Only the settings you pass are touched.
+   *
+   * Sleeping bodies don't notice changes (they're skipped by the
+   * solver!), so we wake them up when gravity or sleeping changes.
+   */
+  configure(settings: Partial<PhysicsSettings>) {
+    const { engine } = this
+    let wakeAll = false
+
+    if (
+      settings.gravity &&
+      (settings.gravity.x !== engine.gravity.x || settings.gravity.y !== engine.gravity.y)
+    ) {
+      engine.gravity.x = settings.gravity.x
+      engine.gravity.y = settings.gravity.y
+      wakeAll = true
+    }
+
+    if (settings.timeScale !== undefined) {
+      engine.timing.timeScale = settings.timeScale
+    }
+
+    if (settings.positionIterations !== undefined) {
+      engine.positionIterations = settings.positionIterations
+    }
+
+    if (settings.velocityIterations !== undefined) {
+      engine.velocityIterations = settings.velocityIterations
+    }
+
+    if (settings.sleepThreshold !== undefined) {
+      this.sleepThreshold = settings.sleepThreshold
+      engine.world.bodies.forEach((body) => {
+        body.sleepThreshold = this.sleepThreshold
+      })
+    }
+
+    if (settings.enableSleeping !== undefined && settings.enableSleeping !== engine.enableSleeping) {
+      engine.enableSleeping = settings.enableSleeping
+      wakeAll = true
+    }
+
+    if (wakeAll) {
+      this.wakeAll()
+    }
+  }
+
+  /**
+   * Wake every sleeping body so it reacts to changes right away
+   */
+  wakeAll() {
+    this.engine.world.bodies.forEach((body) => {
+      if (body.isSleeping) Sleeping.set(body, false)
+    })
+  }
+
+  get world(): Matter.World {
+    return this.engine.world
+  }
+
+  get width(): number {
+    return this.size.width
+  }
+
+  get height(): number {
+    return this.size.height
+  }
+
+  /**
+   * Advance the simulation by one fixed step
+   *
+   * This is what Matter.Runner calls for us in the browser.
+   * In Node, call it in a loop: 60 steps = 1 simulated second.
+   */
+  step(delta: number = DEFAULT_STEP_DELTA) {
+    Engine.update(this.engine, delta)
+  }
+
+  /**
+   * Add one or more bodies - they start simulating on the next step
+   */
+  addBody(body: Matter.Body | Matter.Body[]) {
+    World.add(this.engine.world, body)
+  }
+
+  /**
+   * Remove one or more bodies from the world
+   */
+  removeBody(body: Matter.Body | Matter.Body[]) {
+    World.remove(this.engine.world, body)
+  }
+
+  /**
+   * EXPLAINER: Adding Composites
+   *
+   * A composite (lib/composite-factory.ts) is a bundle of bodies and
+   * the constraints between them. Its bodies and constraints are added
+   * to the world directly (not as a nested composite), so everything
+   * that works on world.bodies - drawing, dragging, cleanup policies,
+   * snapshots - handles each part like a normal shape.
+   *
+   * When a part is removed (culled off-screen, cleared, erased), the
+   * constraints attached to it are removed with it.
+   */
+  addComposite(composite: Matter.Composite) {
+    const constraints = Composite.allConstraints(composite)
+    constraints.forEach((constraint) => this.links.add(constraint))
+
+    World.add(this.engine.world, [...Composite.allBodies(composite), ...constraints])
+  }
+
+  /**
+   * Add a constraint between bodies (or a body and a point)
+   *
+   * Like composite links, it is removed automatically when a body it
+   * holds is removed.
+   */
+  addConstraint(constraint: Matter.Constraint) {
+    this.links.add(constraint)
+    World.add(this.engine.world, constraint)
+  }
+
+  removeConstraint(constraint: Matter.Constraint) {
+    World.remove(this.engine.world, constraint)
+  }
+
+  /**
+   * Is this constraint still in the world? (false once its body was removed)
+   */
+  hasConstraint(constraint: Matter.Constraint): boolean {
+    return this.links.has(constraint)
+  }
+
+  /**
+   * All moving bodies (everything except walls and other static bodies)
+   */
+  getDynamicBodies(): Matter.Body[] {
+    return this.engine.world.bodies.filter((body) => !body.isStatic)
+  }
+
+  getBoundaries(): Boundaries | null {
+    return this.boundaries
+  }
+
+  /**
+   * CHALLENGE 1B: Static vs Dynamic Bodies
+   *
+   * Static bodies don't move. They're like immovable objects.
+   * - isStatic: true means infinite mass
+   * - They don't respond to gravity or forces
+   * - Perfect for walls, floors, platforms
+   *
+   * EXPERIMENT: What happens if you remove isStatic: true from the floor?
+   * Answer: The floor will fall due to gravity!
+   *
+   * (Re)build the floor and side walls for the given size.
+   *
+   * Docs: https://brm.io/matter-js/docs/classes/Body.html#property_isStatic
+   */
+  setBoundaries(width: number, height: number) {
+    if (this.boundaries) {
+      World.remove(this.engine.world, Object.values(this.boundaries))
+    }
+
+    const layout = getWallLayout(width, height)
+    const createWall = (label: keyof Boundaries) => {
+      const { x, y, width, height } = layout[label]
+
+      return Bodies.rectangle(x, y, width, height, {
+        isStatic: true,
+        label,
+        render: {
+          fillStyle: 'transparent',
+        },
+      })
+    }
+
+    const floor = createWall('floor')
+    const leftWall = createWall('leftWall')
+    const rightWall = createWall('rightWall')
+
+    this.boundaries = { floor, leftWall, rightWall }
+    this.size = { width, height }
+
+    World.add(this.engine.world, [floor, leftWall, rightWall])
+  }
+
+  /**
+   * EXPLAINER: Resizing Without a Rebuild
+   *
+   * When the window changes size (docking a laptop, rotating a phone)
+   * we keep the engine and every body in it. The existing walls are
+   * moved and stretched to the new size, then any body that ended up
+   * outside is pushed back in.
+   *
+   * When the area gets narrower, bodies are first squeezed along with
+   * it (x scaled by newWidth / oldWidth). Just clamping would stack
+   * every body past the edge on the same spot, and the solver pushes
+   * such deep overlaps straight through the walls.
+   *
+   * CHALLENGE: Build a tall pile, then make the window narrower.
+   * Where do the shapes on the right edge go?
+   */
+  resize(width: number, height: number) {
+    const { boundaries } = this
+
+    if (!boundaries) {
+      this.setBoundaries(width, height)
+      return
+    }
+
+    if (width === this.size.width && height === this.size.height) return
+
+    if (width < this.size.width) {
+      const scale = width / this.size.width
+      this.getDynamicBodies().forEach((body) => {
+        Body.translate(body, { x: body.position.x * (scale - 1), y: 0 })
+      })
+    }
+
+    const layout = getWallLayout(width, height)
+    ;(Object.keys(layout) as (keyof Boundaries)[]).forEach((label) => {
+      const { x, y, width, height } = layout[label]
+      fitRectangle(boundaries[label], x, y, width, height)
+    })
+
+    this.size = { width, height }
+    this.clampBodiesToBounds()
+  }
+
+  /**
+   * Push dynamic bodies that poke through a wall or the floor back inside
+   *
+   * The top is open (new shapes spawn above the screen), so only the
+   * sides and the floor are enforced. Bodies wider than the whole area
+   * are centered. Moved bodies are woken up so they settle again.
+   */
+  clampBodiesToBounds() {
+    const { width, height } = this.size
+    const floorTop = height - WALL_THICKNESS
+
+    this.getDynamicBodies().forEach((body) => {
+      const { min, max } = body.bounds
+      const translation = { x: 0, y: 0 }
+
+      if (max.x - min.x >= width) {
+        translation.x = width / 2 - body.position.x
+      } else if (min.x < 0) {
+        translation.x = -min.x
+      } else if (max.x > width) {
+        translation.x = width - max.x
+      }
+
+      if (max.y > floorTop) {
+        translation.y = floorTop - max.y
+      }
+
+      if (translation.x === 0 && translation.y === 0) return
+
+      Body.translate(body, translation)
+      Sleeping.set(body, false)
+    })
+  }
+
+  /**
+   * EXPLAINER: Cleanup (CRITICAL!)
+   *
+   * Clears the world, drops every event listener on the engine and
+   * resets the engine. Don't use the instance after this.
+   */
+  destroy() {
+    // No callback = drop every listener for these names (ours and the managers')
+    Events.off(this.engine, ENGINE_EVENTS)
+    Events.off(this.engine.world, 'afterAdd', this.handleAfterAdd)
+    Events.off(this.engine.world, 'afterRemove', this.handleAfterRemove)
+    World.clear(this.engine.world, false)
+    Engine.clear(this.engine)
+    this.boundaries = null
+    this.links.clear()
+  }
+
+  private handleAfterAdd = (event: { object: unknown }) => {
+    const added = Array.isArray(event.object) ? event.object : [event.object]
+
+    added.forEach((item: Matter.Body) => {
+      if (item.type === 'body') item.sleepThreshold = this.sleepThreshold
+    })
+  }
+
+  private handleAfterRemove = (event: { object: unknown }) => {
+    const removed = new Set(Array.isArray(event.object) ? event.object : [event.object])
+    const dangling: Matter.Constraint[] = []
+
+    this.links.forEach((link) => {
+      if (removed.has(link)) {
+        this.links.delete(link)
+      } else if ((link.bodyA && removed.has(link.bodyA)) || (link.bodyB && removed.has(link.bodyB))) {
+        dangling.push(link)
+      }
+    })
+
+    // Fires afterRemove again, which drops them from the set
+    if (dangling.length > 0) World.remove(this.engine.world, dangling)
+  }
+}
+
+/**
+ * Center and size of each wall for a given area
+ *
+ * IMPORTANT FIX: Floor Position
+ *
+ * The floor should be AT the bottom of the screen, not below it!
+ * - y: height - WALL_THICKNESS / 2 puts the floor inside the bottom edge
+ * - This lets shapes land visibly before being culled
+ */
+function getWallLayout(width: number, height: number) {
+  return {
+    floor: { x: width / 2, y: height - WALL_THICKNESS / 2, width, height: WALL_THICKNESS },
+    leftWall: { x: -WALL_THICKNESS / 2, y: height / 2, width: WALL_THICKNESS, height },
+    rightWall: { x: width + WALL_THICKNESS / 2, y: height / 2, width: WALL_THICKNESS, height },
+  }
+}
+
+/**
+ * Move and stretch a rectangle body in place (keeps its id and static mass)
+ *
+ * Body.scale() and Body.setVertices() would recalculate the mass,
+ * which breaks static bodies - so we rewrite the four corners directly.
+ */
+function fitRectangle(body: Matter.Body, x: number, y: number, width: number, height: number) {
+  const halfWidth = width / 2
+  const halfHeight = height / 2
+
+  // Same corner order as Bodies.rectangle: top-left, top-right, bottom-right, bottom-left
+  const corners = [
+    { x: x - halfWidth, y: y - halfHeight },
+    { x: x + halfWidth, y: y - halfHeight },
+    { x: x + halfWidth, y: y + halfHeight },
+    { x: x - halfWidth, y: y + halfHeight },
+  ]
+
+  Body.setPosition(body, { x, y })
+  body.vertices.forEach((vertex, index) => {
+    vertex.x = corners[index].x
+    vertex.y = corners[index].y
+  })
+  Bounds.update(body.bounds, body.vertices, body.velocity)
+}
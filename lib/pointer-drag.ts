@@ -0,0 +1,184 @@
+/**
+ * EXPLAINER: Multi-touch Dragging
+ *
+ * Matter.MouseConstraint knows about ONE mouse, so only one body can
+ * be dragged at a time. Phones and tablets have up to ten fingers!
+ *
+ * Pointer events give every finger (and the mouse, and a pen) its own
+ * pointerId. For each pointer that lands on a body we create a
+ * separate drag constraint - a spring from the pointer to the spot on
+ * the body that was grabbed:
+ *
+ *   pointerdown → find the body under the pointer, attach a spring
+ *   pointermove → move that pointer's end of the spring
+ *   pointerup   → remove the spring and THROW the body
+ *
+ * The throw: every pointer keeps its last few positions. On release,
+ * the body gets the speed the pointer was moving at - so a fast flick
+ * flings the body, and a finger held still just lets go.
+ * Two fingers throwing two shapes each get their own velocity.
+ *
+ * The drag logic (grab / move / release) is plain TypeScript, so it
+ * also runs in Node. The grab tool (lib/tools.ts) feeds it the
+ * canvas pointer events.
+ *
+ * CHALLENGE: Grab one shape with each hand (or two fingers) and throw
+ * them at each other.
+ */
+
+import Matter from 'matter-js'
+import { DEFAULT_STEP_DELTA, type PhysicsWorld } from './physics-world'
+
+const { Body, Constraint, Query, Sleeping, Vector } = Matter
+
+export interface PointerDragOptions {
+  /** Spring stiffness (0 - 1, default 0.05 like Matter's MouseConstraint) */
+  stiffness?: number
+  /** Fastest throw, in px per step */
+  maxThrowSpeed?: number
+}
+
+/**
+ * A pointer position at a moment in time (ms)
+ */
+interface PointerSample {
+  x: number
+  y: number
+  time: number
+}
+
+interface PointerDrag {
+  body: Matter.Body
+  constraint: Matter.Constraint
+  samples: PointerSample[]
+}
+
+/**
+ * Only movement this recent counts toward the throw (ms). Older samples
+ * would average in the slow start of the gesture.
+ */
+const VELOCITY_WINDOW = 80
+
+export class PointerDragController {
+  private drags = new Map<number, PointerDrag>()
+  private readonly stiffness: number
+  private readonly maxThrowSpeed: number
+
+  constructor(
+    private readonly physics: PhysicsWorld,
+    { stiffness = 0.05, maxThrowSpeed = 40 }: PointerDragOptions = {}
+  ) {
+    this.stiffness = stiffness
+    this.maxThrowSpeed = maxThrowSpeed
+  }
+
+  /**
+   * Topmost dynamic body at a point (drawn last = on top), if any
+   */
+  getBodyAt(point: Matter.Vector): Matter.Body | undefined {
+    return Query.point(this.physics.getDynamicBodies(), point).at(-1)
+  }
+
+  /**
+   * Start dragging whatever is under the pointer. Returns the body, or
+   * null when the pointer landed on empty space.
+   */
+  grab(pointerId: number, point: Matter.Vector, time: number): Matter.Body | null {
+    this.release(pointerId)
+
+    const body = this.getBodyAt(point)
+    if (!body) return null
+
+    const constraint = Constraint.create({
+      label: 'Pointer Drag',
+      pointA: { ...point },
+      bodyB: body,
+      // The grabbed spot, relative to the body - Matter turns it with the body
+      pointB: Vector.sub(point, body.position),
+      length: 0,
+      stiffness: this.stiffness,
+      damping: 0.1,
+      render: { visible: false },
+    })
+
+    Sleeping.set(body, false)
+    this.physics.addConstraint(constraint)
+    this.drags.set(pointerId, { body, constraint, samples: [{ ...point, time }] })
+
+    return body
+  }
+
+  /**
+   * Move a pointer's end of its spring
+   */
+  move(pointerId: number, point: Matter.Vector, time: number) {
+    const drag = this.drags.get(pointerId)
+    if (!drag) return
+
+    // The body was removed (culled, cleared...) - and the spring with it
+    if (!this.physics.hasConstraint(drag.constraint)) {
+      this.drags.delete(pointerId)
+      return
+    }
+
+    drag.constraint.pointA = { ...point }
+    drag.samples.push({ ...point, time })
+    drag.samples = drag.samples.filter((sample) => time - sample.time <= VELOCITY_WINDOW)
+
+    Sleeping.set(drag.body, false)
+  }
+
+  /**
+   * Let go: remove the spring and throw the body with the pointer's speed
+   *
+   * Pass `time` to measure the throw at that moment (a pointer that
+   * stopped before letting go drops the body instead of flinging it).
+   */
+  release(pointerId: number, time?: number) {
+    const drag = this.drags.get(pointerId)
+    if (!drag) return
+
+    this.drags.delete(pointerId)
+    if (!this.physics.hasConstraint(drag.constraint)) return
+
+    this.physics.removeConstraint(drag.constraint)
+
+    const velocity = time === undefined ? null : this.getThrowVelocity(drag.samples, time)
+    if (velocity) Body.setVelocity(drag.body, velocity)
+  }
+
+  /**
+   * Drop everything (e.g. when the world is rebuilt)
+   */
+  releaseAll() {
+    ;[...this.drags.keys()].forEach((pointerId) => this.release(pointerId))
+  }
+
+  /**
+   * Bodies held right now, one entry per pointer
+   */
+  getDraggedBodies(): Matter.Body[] {
+    return [...this.drags.values()].map((drag) => drag.body)
+  }
+
+  /**
+   * Pointer speed over the last VELOCITY_WINDOW ms, in px per step
+   *
+   * Null when the pointer didn't move lately (a tap, or a finger held
+   * still) - the body then keeps the speed the spring gave it.
+   */
+  private getThrowVelocity(samples: PointerSample[], time: number): Matter.Vector | null {
+    const recent = samples.filter((sample) => time - sample.time <= VELOCITY_WINDOW)
+    if (recent.length < 2) return null
+
+    const first = recent[0]
+    const last = recent[recent.length - 1]
+    const elapsed = last.time - first.time
+    if (elapsed <= 0) return null
+
+    const velocity = Vector.mult(Vector.sub(last, first), DEFAULT_STEP_DELTA / elapsed)
+    const speed = Vector.magnitude(velocity)
+
+    return speed > this.maxThrowSpeed ? Vector.mult(velocity, this.maxThrowSpeed / speed) : velocity
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * EXPLAINER: Seeded Randomness
+ *
+ * Math.random() gives a different answer every time - great for variety,
+ * terrible for reproducing a bug report or a demo. A seeded PRNG
+ * (pseudo-random number generator) always produces the same sequence
+ * of numbers for the same seed.
+ *
+ * Every random choice in the shape factory and spawner takes a
+ * `RandomSource` argument. Pass Math.random for chaos, or
+ * createSeededRandom(seed) for a burst you can replay exactly.
+ *
+ * CHALLENGE: Open the app with ?seed=42 in the URL, spawn, reload,
+ * spawn again. Same shapes, same colors, same positions!
+ */
+
+/**
+ * A function returning a float in [0, 1) - same contract as Math.random
+ */
+export type RandomSource = () => number
+
+/**
+ * Create a deterministic random source (mulberry32 algorithm)
+ *
+ * Small, fast and good enough for visuals. Not for cryptography!
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Mix a base seed with a salt (e.g. the spawn number) into a new seed
+ *
+ * Lets each burst get its own stream while staying reproducible.
+ */
+export function deriveSeed(seed: number, salt: number): number {
+  let h = (seed ^ Math.imul(salt + 1, 0x9e3779b1)) >>> 0
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b)
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35)
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+/**
+ * Get random value in range [min, max)
+ */
+export function randomInRange(rng: RandomSource, min: number, max: number): number {
+  return rng() * (max - min) + min
+}
+
+/**
+ * Get random integer in range [min, max] (inclusive)
+ */
+export function randomInt(rng: RandomSource, min: number, max: number): number {
+  return Math.floor(rng() * (max - min + 1)) + min
+}
+
+/**
+ * Pick a random item from a list
+ */
+export function pickRandom<T>(rng: RandomSource, items: readonly T[]): T {
+  return items[Math.floor(rng() * items.length)]
+}
+
+/**
+ * Pick a random item, where items with a bigger weight come up more often
+ *
+ * Weights are relative: [3, 1] means 75% / 25%.
+ * Returns undefined if no item has a positive weight.
+ */
+export function pickWeighted<T>(
+  rng: RandomSource,
+  items: readonly T[],
+  getWeight: (item: T) => number
+): T | undefined {
+  const total = items.reduce((sum, item) => sum + Math.max(0, getWeight(item)), 0)
+  if (total <= 0) return undefined
+
+  let remaining = rng() * total
+  for (const item of items) {
+    remaining -= Math.max(0, getWeight(item))
+    if (remaining < 0) return item
+  }
+
+  // Floating point leftovers - fall back to the last item that can win
+  return [...items].reverse().find((item) => getWeight(item) > 0)
+}
+
+/**
+ * Read a numeric seed from the page URL (?seed=42)
+ *
+ * Returns undefined on the server or when no valid seed is given.
+ */
+export function getSeedFromLocation(): number | undefined {
+  if (typeof window === 'undefined') return undefined
+
+  const value = new URLSearchParams(window.location.search).get('seed')
+  if (value === null || value.trim() === '') return undefined
+
+  const seed = Number(value)
+  return Number.isFinite(seed) ? seed >>> 0 : undefined
+}
@@ -0,0 +1,198 @@
+/**
+ * EXPLAINER: Recording the Simulation
+ *
+ * To review a collision frame by frame we need to "tape" the world.
+ * After every engine update we store each dynamic body's transform:
+ *
+ *   [id, x, y, angle]  ← 4 numbers per body per frame
+ *
+ * All frames live in ONE growing Float64Array (a compact buffer),
+ * instead of thousands of little objects - much easier on memory.
+ * (A Float32Array would take half the space, but it only holds whole
+ * numbers exactly up to 2^24 - long sessions get body ids past that.)
+ *
+ * Shapes never change after spawning, so we only store a body's shape
+ * once: the first frame we see it (a "spawn event"). Replay combines
+ * spawn events (what to draw) with frames (where to draw it).
+ *
+ * Constraints aren't taped: a replayed chain shows its links as loose
+ * parts moving together. Walls and obstacles aren't either - but shapes
+ * frozen by the freeze tool are, so they can thaw mid-replay.
+ *
+ * CHALLENGE: How many MB does a minute of 50 bodies take?
+ * 50 bodies × 4 numbers × 8 bytes × 60 fps × 60 s ≈ 5.8 MB
+ */
+
+import Matter from 'matter-js'
+import { isFrozen } from './tools'
+import { serializeBody, type SerializedBody } from './world-snapshot'
+
+/**
+ * Numbers stored per body per frame: id, x, y, angle
+ */
+const FLOATS_PER_BODY = 4
+
+/**
+ * Default recording limit: 2 minutes at 60 FPS
+ */
+const DEFAULT_MAX_FRAMES = 60 * 60 * 2
+
+/**
+ * A body's shape + look, captured the first time it was recorded
+ */
+export interface SpawnEvent {
+  frame: number
+  id: number
+  body: SerializedBody
+}
+
+/**
+ * One transform read back from a recorded frame
+ */
+export interface RecordedTransform {
+  id: number
+  x: number
+  y: number
+  angle: number
+}
+
+interface FrameIndex {
+  timestamp: number
+  offset: number
+  count: number
+}
+
+export class SimulationRecorder {
+  private buffer = new Float64Array(FLOATS_PER_BODY * 1024)
+  private length = 0
+  private frames: FrameIndex[] = []
+  private spawns = new Map<number, SpawnEvent>()
+  private recording = false
+
+  constructor(private readonly maxFrames: number = DEFAULT_MAX_FRAMES) {}
+
+  get isRecording(): boolean {
+    return this.recording
+  }
+
+  get frameCount(): number {
+    return this.frames.length
+  }
+
+  get isFull(): boolean {
+    return this.frames.length >= this.maxFrames
+  }
+
+  /**
+   * Start a fresh recording (drops any previous one)
+   */
+  start() {
+    this.clear()
+    this.recording = true
+  }
+
+  stop() {
+    this.recording = false
+  }
+
+  clear() {
+    this.length = 0
+    this.frames = []
+    this.spawns.clear()
+  }
+
+  /**
+   * Store the current transform of every dynamic (or frozen) body
+   *
+   * Call this from the engine's afterUpdate event.
+   * Does nothing unless recording; stops by itself when full.
+   */
+  capture(engine: Matter.Engine) {
+    if (!this.recording) return
+
+    if (this.isFull) {
+      this.recording = false
+      return
+    }
+
+    const frame = this.frames.length
+    const bodies = engine.world.bodies.filter((body) => !body.isStatic || isFrozen(body))
+
+    this.ensureCapacity(this.length + bodies.length * FLOATS_PER_BODY)
+
+    const offset = this.length
+
+    bodies.forEach((body) => {
+      // First time we see this body? Remember its shape.
+      if (!this.spawns.has(body.id)) {
+        this.spawns.set(body.id, { frame, id: body.id, body: serializeBody(body) })
+      }
+
+      this.buffer[this.length++] = body.id
+      this.buffer[this.length++] = body.position.x
+      this.buffer[this.length++] = body.position.y
+      this.buffer[this.length++] = body.angle
+    })
+
+    this.frames.push({ timestamp: engine.timing.timestamp, offset, count: bodies.length })
+  }
+
+  /**
+   * Read the transforms stored for a frame
+   */
+  getFrame(index: number): RecordedTransform[] {
+    const frame = this.frames[index]
+    if (!frame) return []
+
+    const transforms: RecordedTransform[] = []
+
+    for (let i = 0; i < frame.count; i++) {
+      const base = frame.offset + i * FLOATS_PER_BODY
+      transforms.push({
+        id: this.buffer[base],
+        x: this.buffer[base + 1],
+        y: this.buffer[base + 2],
+        angle: this.buffer[base + 3],
+      })
+    }
+
+    return transforms
+  }
+
+  /**
+   * Simulation time (ms) of a frame, relative to the first frame
+   */
+  getFrameTime(index: number): number {
+    const frame = this.frames[index]
+    const first = this.frames[0]
+    return frame && first ? frame.timestamp - first.timestamp : 0
+  }
+
+  /**
+   * Shape and look of a recorded body
+   */
+  getSpawn(id: number): SpawnEvent | undefined {
+    return this.spawns.get(id)
+  }
+
+  /**
+   * All spawn events, in the order bodies appeared
+   */
+  getSpawnEvents(): SpawnEvent[] {
+    return [...this.spawns.values()]
+  }
+
+  /**
+   * Grow the buffer by doubling (like an ArrayList)
+   */
+  private ensureCapacity(size: number) {
+    if (size <= this.buffer.length) return
+
+    let capacity = this.buffer.length
+    while (capacity < size) capacity *= 2
+
+    const grown = new Float64Array(capacity)
+    grown.set(this.buffer.subarray(0, this.length))
+    this.buffer = grown
+  }
+}
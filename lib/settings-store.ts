@@ -0,0 +1,146 @@
+/**
+ * EXPLAINER: Runtime Settings Store
+ *
+ * The values in matter-config.ts are frozen `as const` DEFAULTS.
+ * This store holds the LIVE values, which the settings panel can change
+ * while the simulation runs.
+ *
+ * It's a tiny observable object:
+ * - getSettings() - read the current values
+ * - updateSettings() - change some values and notify listeners
+ * - subscribeSettings() - get called on every change
+ *
+ * That's exactly the shape React's useSyncExternalStore expects
+ * (see hooks/use-settings.ts), and plain code can use it too.
+ *
+ * CHALLENGE: Open the console and run
+ * updateSettings({ gravity: { x: 0, y: -1 } }) - everything falls up!
+ */
+
+import {
+  BODY_DEFAULTS,
+  LIFECYCLE_CONFIG,
+  PHYSICS_CONFIG,
+  RENDER_CONFIG,
+  SLEEPING_CONFIG,
+  TIMING_CONFIG,
+} from './matter-config'
+import type { LifecycleOptions } from './body-lifecycle'
+import type { EmitterKind } from './emitters'
+import type { MaterialName } from './materials'
+import type { DrawnObstacleKind } from './obstacles'
+import type { ToolName } from './tools'
+
+/**
+ * Material values applied to newly spawned bodies
+ */
+export interface MaterialSettings {
+  restitution: number
+  friction: number
+  frictionAir: number
+  density: number
+}
+
+export interface SimulationSettings {
+  gravity: { x: number; y: number }
+  timeScale: number
+  positionIterations: number
+  velocityIterations: number
+  enableSleeping: boolean
+  sleepThreshold: number
+  material: MaterialSettings
+  /**
+   * Preset the material values came from (null = custom sliders).
+   * New bodies remember it, so they get the preset's look.
+   */
+  materialPreset: MaterialName | null
+  /** What a spawn starts (lib/emitters.ts) */
+  emitter: EmitterKind
+  /** What a press on the canvas does (lib/tools.ts) */
+  tool: ToolName
+  /** What the build tool draws when dragging (lib/obstacles.ts) */
+  obstacleKind: DrawnObstacleKind
+  lifecycle: LifecycleOptions
+  /** Draw the debug overlay (lib/debug-renderer.ts) */
+  showDebug: boolean
+  /** Show the performance HUD (components/perf-hud.tsx) */
+  showPerformance: boolean
+}
+
+/**
+ * Starting values, taken from the config constants
+ */
+export const DEFAULT_SETTINGS: SimulationSettings = {
+  gravity: { ...PHYSICS_CONFIG.gravity },
+  timeScale: TIMING_CONFIG.timeScale,
+  positionIterations: PHYSICS_CONFIG.positionIterations,
+  velocityIterations: PHYSICS_CONFIG.velocityIterations,
+  enableSleeping: PHYSICS_CONFIG.enableSleeping,
+  sleepThreshold: SLEEPING_CONFIG.sleepThreshold,
+  material: { ...BODY_DEFAULTS },
+  materialPreset: null,
+  emitter: 'rain',
+  tool: 'grab',
+  obstacleKind: 'line',
+  lifecycle: { ...LIFECYCLE_CONFIG },
+  showDebug: RENDER_CONFIG.showDebug,
+  showPerformance: RENDER_CONFIG.showPerformance,
+}
+
+type SettingsListener = (settings: SimulationSettings) => void
+
+/**
+ * Partial update - nested objects (gravity, material, lifecycle) can be partial too
+ */
+export type SettingsUpdate = Partial<
+  Omit<SimulationSettings, 'gravity' | 'material' | 'lifecycle'>
+> & {
+  gravity?: Partial<SimulationSettings['gravity']>
+  material?: Partial<MaterialSettings>
+  lifecycle?: Partial<LifecycleOptions>
+}
+
+let currentSettings: SimulationSettings = DEFAULT_SETTINGS
+const listeners = new Set<SettingsListener>()
+
+/**
+ * Read the current settings
+ *
+ * The returned object is replaced (never mutated) on every change,
+ * so it's safe to compare by reference.
+ */
+export function getSettings(): SimulationSettings {
+  return currentSettings
+}
+
+/**
+ * Change some settings and notify every listener
+ */
+export function updateSettings(update: SettingsUpdate) {
+  currentSettings = {
+    ...currentSettings,
+    ...update,
+    gravity: { ...currentSettings.gravity, ...update.gravity },
+    material: { ...currentSettings.material, ...update.material },
+    lifecycle: { ...currentSettings.lifecycle, ...update.lifecycle },
+  }
+
+  listeners.forEach((listener) => listener(currentSettings))
+}
+
+/**
+ * Go back to the config defaults
+ */
+export function resetSettings() {
+  updateSettings(DEFAULT_SETTINGS)
+}
+
+/**
+ * Listen for changes. Returns an unsubscribe function.
+ */
+export function subscribeSettings(listener: SettingsListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
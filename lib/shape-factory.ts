@@ -18,7 +18,13 @@
  */
 
 import Matter from 'matter-js'
-import { BODY_DEFAULTS, COLORS } from './matter-config'
+import { COLORS } from './matter-config'
+import { pickRandom, randomInRange, randomInt, type RandomSource } from './random'
+import { getSettings, type MaterialSettings } from './settings-store'
+import { getMaterialPhysics, type MaterialName } from './materials'
+import { pickShape, registerShape } from './shape-registry'
+import { createOutlineBody } from './outline'
+import type { BodyTexture } from './textures'
 
 const { Bodies } = Matter
 
@@ -42,15 +48,208 @@ const { Bodies } = Matter
 /**
  * Get a random color from the neubrutalist palette
  */
-function getRandomColor(): string {
-  return COLORS[Math.floor(Math.random() * COLORS.length)]
+function getRandomColor(rng: RandomSource): string {
+  return pickRandom(rng, COLORS)
 }
 
 /**
- * Get random value in range [min, max]
+ * Material for new bodies
+ *
+ * Starts as BODY_DEFAULTS, but the settings panel can change it live
+ * (see lib/settings-store.ts). Already spawned bodies keep theirs.
+ */
+function getMaterial() {
+  return getSettings().material
+}
+
+/**
+ * EXPLAINER: Shape Specs
+ *
+ * The random factories below pick their own size and color. When you
+ * need an EXACT shape (a level layout, a test, a saved scene) describe
+ * it with a ShapeSpec and call createShape(spec):
+ * ```
+ * createShape({ kind: 'rectangle', x: 400, y: 300, width: 200, height: 20, angle: 0.1 })
+ * ```
+ *
+ * `kind` decides which dimensions are needed - TypeScript checks them
+ * for you (a "discriminated union").
+ *
+ * Anything optional falls back to a sensible default:
+ * - angle: 0
+ * - color: first color of the palette
+ * - material: the current material from the settings panel
+ *   (a preset name like 'steel', or overrides like { density: 0.01 })
+ * - label: Matter's default ('Circle Body', 'Rectangle Body', ...)
+ * - texture: none (see lib/textures.ts for sprites and image patterns)
+ */
+interface ShapeSpecBase {
+  x: number
+  y: number
+  /** Rotation in radians */
+  angle?: number
+  color?: string
+  /** A material preset, or overrides for the current material */
+  material?: MaterialName | Partial<MaterialSettings>
+  label?: string
+  /** An image drawn over the color */
+  texture?: BodyTexture
+}
+
+export interface CircleSpec extends ShapeSpecBase {
+  kind: 'circle'
+  radius: number
+}
+
+export interface RectangleSpec extends ShapeSpecBase {
+  kind: 'rectangle'
+  width: number
+  height: number
+}
+
+/**
+ * Regular polygon: `sides` corners on a circle of `radius`
+ */
+export interface PolygonSpec extends ShapeSpecBase {
+  kind: 'polygon'
+  sides: number
+  radius: number
+}
+
+export interface StarSpec extends ShapeSpecBase {
+  kind: 'star'
+  points: number
+  outerRadius: number
+  /** Defaults to 40% of outerRadius */
+  innerRadius?: number
+}
+
+/**
+ * Any outline, with vertices relative to its center
+ */
+export interface VerticesSpec extends ShapeSpecBase {
+  kind: 'vertices'
+  vertices: Matter.Vector[]
+}
+
+/**
+ * One or more rings (e.g. an imported SVG path), relative to its center
+ *
+ * Rings inside other rings are drawn as holes (see lib/outline.ts).
+ */
+export interface OutlineSpec extends ShapeSpecBase {
+  kind: 'outline'
+  rings: Matter.Vector[][]
+}
+
+export type ShapeSpec = CircleSpec | RectangleSpec | PolygonSpec | StarSpec | VerticesSpec | OutlineSpec
+
+export type ShapeKind = ShapeSpec['kind']
+
+/**
+ * Body options shared by every kind: material, angle, label and colors
+ */
+function getBodyOptions(spec: ShapeSpec): Matter.IChamferableBodyDefinition {
+  let material: MaterialSettings
+  let preset: MaterialName | null
+
+  if (typeof spec.material === 'string') {
+    material = getMaterialPhysics(spec.material)
+    preset = spec.material
+  } else {
+    material = { ...getMaterial(), ...spec.material }
+    // Overriding any value makes it a custom material
+    preset = spec.material ? null : getSettings().materialPreset
+  }
+
+  return {
+    restitution: material.restitution,
+    friction: material.friction,
+    frictionAir: material.frictionAir,
+    density: material.density,
+
+    angle: spec.angle ?? 0,
+    ...(spec.label !== undefined && { label: spec.label }),
+
+    // Render properties for custom drawing
+    render: {
+      fillStyle: spec.color ?? COLORS[0],
+      strokeStyle: '#000000',
+      lineWidth: 5,
+    },
+
+    // Remembered for the renderer and snapshots (see lib/materials.ts)
+    plugin: {
+      ...(preset && { material: preset }),
+      ...(spec.texture && { texture: spec.texture }),
+    },
+  }
+}
+
+/**
+ * Outline of a star: alternating outer and inner points
+ *
+ * Math refresher:
+ * - x = centerX + radius * cos(angle)
+ * - y = centerY + radius * sin(angle)
+ * - Angle in radians: (degrees * Math.PI / 180)
+ */
+function getStarVertices(points: number, outerRadius: number, innerRadius: number): Matter.Vector[] {
+  const vertices: Matter.Vector[] = []
+  const angleStep = (Math.PI * 2) / (points * 2) // Total points = outer + inner
+
+  for (let i = 0; i < points * 2; i++) {
+    // Alternate between outer and inner radius
+    const radius = i % 2 === 0 ? outerRadius : innerRadius
+    const angle = i * angleStep - Math.PI / 2 // Start at top
+
+    vertices.push({
+      x: Math.cos(angle) * radius,
+      y: Math.sin(angle) * radius,
+    })
+  }
+
+  return vertices
+}
+
+/**
+ * Build exactly the shape described by `spec`
  */
-function randomInRange(min: number, max: number): number {
-  return Math.random() * (max - min) + min
+export function createShape(spec: ShapeSpec): Matter.Body {
+  const options = getBodyOptions(spec)
+
+  switch (spec.kind) {
+    case 'circle':
+      return Bodies.circle(spec.x, spec.y, spec.radius, options)
+
+    case 'rectangle':
+      return Bodies.rectangle(spec.x, spec.y, spec.width, spec.height, options)
+
+    case 'polygon':
+      return Bodies.polygon(spec.x, spec.y, spec.sides, spec.radius, options)
+
+    case 'star': {
+      const innerRadius = spec.innerRadius ?? spec.outerRadius * 0.4
+      const vertices = getStarVertices(spec.points, spec.outerRadius, innerRadius)
+      return createOutlineBody(spec.x, spec.y, [vertices], options)
+    }
+
+    case 'vertices':
+      /**
+       * EXPLAINER: Custom vertices
+       *
+       * This creates a custom shape from vertex points.
+       * Vertices must be in clockwise or counter-clockwise order.
+       * Concave shapes are split into convex parts (lib/outline.ts),
+       * and Matter.js calculates the center and physics properties.
+       *
+       * Note: We pass vertices as relative to (0,0), then position at (x,y)
+       */
+      return createOutlineBody(spec.x, spec.y, [spec.vertices], options)
+
+    case 'outline':
+      return createOutlineBody(spec.x, spec.y, spec.rings, options)
+  }
 }
 
 /**
@@ -63,23 +262,16 @@ function randomInRange(min: number, max: number): number {
  * 4. What other properties can you add?
  *
  * Signature: Bodies.circle(x, y, radius, options)
+ * (createShape calls it for kind: 'circle')
  */
-export function createCircle(x: number, y: number): Matter.Body {
-  const radius = randomInRange(20, 50)
-
-  return Bodies.circle(x, y, radius, {
-    restitution: BODY_DEFAULTS.restitution,
-    friction: BODY_DEFAULTS.friction,
-    frictionAir: BODY_DEFAULTS.frictionAir,
-    density: BODY_DEFAULTS.density,
+export function createCircle(
+  x: number,
+  y: number,
+  rng: RandomSource = Math.random
+): Matter.Body {
+  const radius = randomInRange(rng, 20, 50)
 
-    // Render properties for custom drawing
-    render: {
-      fillStyle: getRandomColor(),
-      strokeStyle: '#000000',
-      lineWidth: 5,
-    },
-  })
+  return createShape({ kind: 'circle', x, y, radius, color: getRandomColor(rng) })
 }
 
 /**
@@ -91,25 +283,18 @@ export function createCircle(x: number, y: number): Matter.Body {
  * Unlike circles, rectangles have rotation (angle property)
  * and can have different aspect ratios for variety.
  */
-export function createRectangle(x: number, y: number): Matter.Body {
-  const width = randomInRange(30, 80)
-  const height = randomInRange(30, 80)
-
-  return Bodies.rectangle(x, y, width, height, {
-    restitution: BODY_DEFAULTS.restitution,
-    friction: BODY_DEFAULTS.friction,
-    frictionAir: BODY_DEFAULTS.frictionAir,
-    density: BODY_DEFAULTS.density,
+export function createRectangle(
+  x: number,
+  y: number,
+  rng: RandomSource = Math.random
+): Matter.Body {
+  const width = randomInRange(rng, 30, 80)
+  const height = randomInRange(rng, 30, 80)
 
-    // Random initial rotation (in radians)
-    angle: Math.random() * Math.PI * 2,
+  // Random initial rotation (in radians)
+  const angle = rng() * Math.PI * 2
 
-    render: {
-      fillStyle: getRandomColor(),
-      strokeStyle: '#000000',
-      lineWidth: 5,
-    },
-  })
+  return createShape({ kind: 'rectangle', x, y, width, height, angle, color: getRandomColor(rng) })
 }
 
 /**
@@ -127,23 +312,16 @@ export function createRectangle(x: number, y: number): Matter.Body {
  *
  * Docs: https://brm.io/matter-js/docs/classes/Bodies.html#method_polygon
  */
-export function createPolygon(x: number, y: number, sides: number): Matter.Body {
-  const radius = randomInRange(25, 45)
-
-  return Bodies.polygon(x, y, sides, radius, {
-    restitution: BODY_DEFAULTS.restitution,
-    friction: BODY_DEFAULTS.friction,
-    frictionAir: BODY_DEFAULTS.frictionAir,
-    density: BODY_DEFAULTS.density,
-
-    angle: Math.random() * Math.PI * 2,
+export function createPolygon(
+  x: number,
+  y: number,
+  sides: number,
+  rng: RandomSource = Math.random
+): Matter.Body {
+  const radius = randomInRange(rng, 25, 45)
+  const angle = rng() * Math.PI * 2
 
-    render: {
-      fillStyle: getRandomColor(),
-      strokeStyle: '#000000',
-      lineWidth: 5,
-    },
-  })
+  return createShape({ kind: 'polygon', x, y, sides, radius, angle, color: getRandomColor(rng) })
 }
 
 /**
@@ -155,36 +333,52 @@ export function createPolygon(x: number, y: number, sides: number): Matter.Body
  * - Right triangles
  * - Using Bodies.fromVertices() for custom shapes
  */
-export function createTriangle(x: number, y: number): Matter.Body {
-  return createPolygon(x, y, 3)
+export function createTriangle(
+  x: number,
+  y: number,
+  rng: RandomSource = Math.random
+): Matter.Body {
+  return createPolygon(x, y, 3, rng)
 }
 
 /**
  * Create a pentagon (5-sided polygon)
  */
-export function createPentagon(x: number, y: number): Matter.Body {
-  return createPolygon(x, y, 5)
+export function createPentagon(
+  x: number,
+  y: number,
+  rng: RandomSource = Math.random
+): Matter.Body {
+  return createPolygon(x, y, 5, rng)
 }
 
 /**
  * Create a hexagon (6-sided polygon)
  */
-export function createHexagon(x: number, y: number): Matter.Body {
-  return createPolygon(x, y, 6)
+export function createHexagon(
+  x: number,
+  y: number,
+  rng: RandomSource = Math.random
+): Matter.Body {
+  return createPolygon(x, y, 6, rng)
 }
 
 /**
  * Create an octagon (8-sided polygon)
  */
-export function createOctagon(x: number, y: number): Matter.Body {
-  return createPolygon(x, y, 8)
+export function createOctagon(
+  x: number,
+  y: number,
+  rng: RandomSource = Math.random
+): Matter.Body {
+  return createPolygon(x, y, 8, rng)
 }
 
 /**
  * CHALLENGE 2C: Create a Star Shape
  *
  * This is more advanced! Stars aren't a built-in shape.
- * We need to calculate vertex positions manually.
+ * We need to calculate vertex positions manually (see getStarVertices).
  *
  * How it works:
  * 1. Stars have alternating inner and outer vertices
@@ -192,11 +386,6 @@ export function createOctagon(x: number, y: number): Matter.Body {
  * 3. Inner vertices are at 'innerRadius' distance
  * 4. We rotate around the center, placing vertices
  *
- * Math refresher:
- * - x = centerX + radius * cos(angle)
- * - y = centerY + radius * sin(angle)
- * - Angle in radians: (degrees * Math.PI / 180)
- *
  * CHALLENGE: Before looking at the code, try drawing this on paper!
  * - 5 outer points
  * - 5 inner points
@@ -207,63 +396,34 @@ export function createOctagon(x: number, y: number): Matter.Body {
 export function createStar(
   x: number,
   y: number,
-  points: number = 5
+  points: number = 5,
+  rng: RandomSource = Math.random
 ): Matter.Body {
-  const outerRadius = randomInRange(30, 50)
-  const innerRadius = outerRadius * 0.4 // Inner points are 40% of outer
-
-  // Calculate vertices by going around the circle
-  const vertices: Matter.Vector[] = []
-  const angleStep = (Math.PI * 2) / (points * 2) // Total points = outer + inner
-
-  for (let i = 0; i < points * 2; i++) {
-    // Alternate between outer and inner radius
-    const radius = i % 2 === 0 ? outerRadius : innerRadius
-    const angle = i * angleStep - Math.PI / 2 // Start at top
-
-    vertices.push({
-      x: Math.cos(angle) * radius,
-      y: Math.sin(angle) * radius,
-    })
-  }
+  const outerRadius = randomInRange(rng, 30, 50)
 
-  /**
-   * EXPLAINER: Bodies.fromVertices()
-   *
-   * This creates a custom shape from vertex points.
-   * Vertices must be in clockwise or counter-clockwise order.
-   * Matter.js will calculate the center and physics properties.
-   *
-   * Note: We pass vertices as relative to (0,0), then position at (x,y)
-   */
-  const star = Bodies.fromVertices(x, y, [vertices], {
-    restitution: BODY_DEFAULTS.restitution,
-    friction: BODY_DEFAULTS.friction,
-    frictionAir: BODY_DEFAULTS.frictionAir,
-    density: BODY_DEFAULTS.density,
-
-    render: {
-      fillStyle: getRandomColor(),
-      strokeStyle: '#000000',
-      lineWidth: 5,
-    },
-  })
-
-  return star
+  return createShape({ kind: 'star', x, y, points, outerRadius, color: getRandomColor(rng) })
 }
 
 /**
  * Create a 5-point star
  */
-export function create5PointStar(x: number, y: number): Matter.Body {
-  return createStar(x, y, 5)
+export function create5PointStar(
+  x: number,
+  y: number,
+  rng: RandomSource = Math.random
+): Matter.Body {
+  return createStar(x, y, 5, rng)
 }
 
 /**
  * Create a 6-point star
  */
-export function create6PointStar(x: number, y: number): Matter.Body {
-  return createStar(x, y, 6)
+export function create6PointStar(
+  x: number,
+  y: number,
+  rng: RandomSource = Math.random
+): Matter.Body {
+  return createStar(x, y, 6, rng)
 }
 
 /**
@@ -277,16 +437,20 @@ export function create6PointStar(x: number, y: number): Matter.Body {
  * - An L-shape
  * - A crescent moon
  */
-export function createIrregularPolygon(x: number, y: number): Matter.Body {
-  const vertexCount = Math.floor(randomInRange(4, 8))
-  const baseRadius = randomInRange(25, 45)
+export function createIrregularPolygon(
+  x: number,
+  y: number,
+  rng: RandomSource = Math.random
+): Matter.Body {
+  const vertexCount = randomInt(rng, 4, 7)
+  const baseRadius = randomInRange(rng, 25, 45)
 
   const vertices: Matter.Vector[] = []
   const angleStep = (Math.PI * 2) / vertexCount
 
   for (let i = 0; i < vertexCount; i++) {
     // Randomly vary the radius for each vertex (0.7 to 1.3 of base)
-    const radius = baseRadius * randomInRange(0.7, 1.3)
+    const radius = baseRadius * randomInRange(rng, 0.7, 1.3)
     const angle = i * angleStep
 
     vertices.push({
@@ -295,54 +459,56 @@ export function createIrregularPolygon(x: number, y: number): Matter.Body {
     })
   }
 
-  const shape = Bodies.fromVertices(x, y, [vertices], {
-    restitution: BODY_DEFAULTS.restitution,
-    friction: BODY_DEFAULTS.friction,
-    frictionAir: BODY_DEFAULTS.frictionAir,
-    density: BODY_DEFAULTS.density,
-
-    render: {
-      fillStyle: getRandomColor(),
-      strokeStyle: '#000000',
-      lineWidth: 5,
-    },
-  })
-
-  return shape
+  return createShape({ kind: 'vertices', x, y, vertices, color: getRandomColor(rng) })
 }
 
 /**
  * EXPLAINER: Shape Factory Types
  *
- * We maintain an array of all shape creation functions.
- * This lets us randomly select a shape type when spawning.
+ * Every shape creation function has the same signature, so they can
+ * all live in the shape registry (lib/shape-registry.ts) and be
+ * picked at random when spawning.
+ *
+ * The optional `rng` lets callers pass a seeded random source so the
+ * same seed always builds the same shape.
+ */
+export type ShapeFactory = (
+  x: number,
+  y: number,
+  rng?: RandomSource
+) => Matter.Body
+
+/**
+ * The built-in shapes, all equally likely to start with
  */
-type ShapeFactory = (x: number, y: number) => Matter.Body
-
-const SHAPE_FACTORIES: ShapeFactory[] = [
-  createCircle,
-  createRectangle,
-  createTriangle,
-  createPentagon,
-  createHexagon,
-  createOctagon,
-  create5PointStar,
-  create6PointStar,
-  createIrregularPolygon,
-]
+registerShape('circle', createCircle, { label: 'Circle' })
+registerShape('rectangle', createRectangle, { label: 'Rectangle' })
+registerShape('triangle', createTriangle, { label: 'Triangle' })
+registerShape('pentagon', createPentagon, { label: 'Pentagon' })
+registerShape('hexagon', createHexagon, { label: 'Hexagon' })
+registerShape('octagon', createOctagon, { label: 'Octagon' })
+registerShape('star-5', create5PointStar, { label: '5-point star' })
+registerShape('star-6', create6PointStar, { label: '6-point star' })
+registerShape('irregular', createIrregularPolygon, { label: 'Irregular' })
 
 /**
  * Create a random shape at the given position
  *
  * This is the main function used by the physics canvas
- * to spawn diverse shapes.
+ * to spawn diverse shapes. The shape is picked by weight from the
+ * shape registry, so the mix follows the settings panel.
  *
- * CHALLENGE: Add weights to make some shapes more common
- * For example, circles 40% of the time, others evenly distributed
+ * CHALLENGE: Make circles 40% of the time, others evenly distributed
+ * (hint: setShapeWeight('circle', ...) - what weight gives 40%?)
  */
-export function createRandomShape(x: number, y: number): Matter.Body {
-  const factory = SHAPE_FACTORIES[Math.floor(Math.random() * SHAPE_FACTORIES.length)]
-  return factory(x, y)
+export function createRandomShape(
+  x: number,
+  y: number,
+  rng: RandomSource = Math.random
+): Matter.Body {
+  // Everything switched off? Circles are better than no shapes at all
+  const factory = pickShape(rng)?.factory ?? createCircle
+  return factory(x, y, rng)
 }
 
 /**
@@ -0,0 +1,135 @@
+/**
+ * EXPLAINER: Shape Registry
+ *
+ * Which shapes does a spawn burst contain, and how often?
+ * The registry is a list of NAMED shape factories, each with:
+ * - weight: how likely it is, relative to the others (0 = never)
+ * - enabled: quick on/off switch that keeps the weight
+ *
+ * The built-in shapes register themselves in lib/shape-factory.ts.
+ * Your own code can add more - no need to fork the module:
+ * ```
+ * registerShape('blob', createBlob, { weight: 3, label: 'Blob' })
+ * setShapeEnabled('octagon', false)
+ * ```
+ *
+ * Like the settings store, it can be observed (subscribeShapes), so
+ * the "Shape mix" section of the settings panel stays in sync.
+ *
+ * CHALLENGE 2B: Spawn only stars! Disable everything else in the panel.
+ */
+
+import { pickWeighted, type RandomSource } from './random'
+import type { ShapeFactory } from './shape-factory'
+
+export interface ShapeEntry {
+  /** Unique id, e.g. 'circle' */
+  name: string
+  /** Shown in the UI */
+  label: string
+  factory: ShapeFactory
+  weight: number
+  enabled: boolean
+  /** Can be removed from the UI (imported shapes) */
+  removable: boolean
+}
+
+export interface RegisterShapeOptions {
+  label?: string
+  weight?: number
+  enabled?: boolean
+  removable?: boolean
+}
+
+type ShapesListener = (shapes: readonly ShapeEntry[]) => void
+
+let entries: readonly ShapeEntry[] = []
+// Weight + enabled at registration time, for resetShapeMix()
+const defaults = new Map<string, Pick<ShapeEntry, 'weight' | 'enabled'>>()
+const listeners = new Set<ShapesListener>()
+
+function setEntries(next: readonly ShapeEntry[]) {
+  entries = next
+  listeners.forEach((listener) => listener(entries))
+}
+
+function updateEntry(name: string, update: Partial<Pick<ShapeEntry, 'weight' | 'enabled'>>) {
+  if (!entries.some((entry) => entry.name === name)) {
+    throw new Error(`Unknown shape "${name}"`)
+  }
+
+  setEntries(entries.map((entry) => (entry.name === name ? { ...entry, ...update } : entry)))
+}
+
+/**
+ * Add a shape factory (replaces an existing one with the same name)
+ */
+export function registerShape(name: string, factory: ShapeFactory, options: RegisterShapeOptions = {}) {
+  const entry: ShapeEntry = {
+    name,
+    label: options.label ?? name,
+    factory,
+    weight: Math.max(0, options.weight ?? 1),
+    enabled: options.enabled ?? true,
+    removable: options.removable ?? false,
+  }
+
+  defaults.set(name, { weight: entry.weight, enabled: entry.enabled })
+
+  const exists = entries.some((existing) => existing.name === name)
+  setEntries(exists ? entries.map((existing) => (existing.name === name ? entry : existing)) : [...entries, entry])
+}
+
+/**
+ * Remove a shape factory. Returns false if it wasn't registered.
+ */
+export function unregisterShape(name: string): boolean {
+  if (!entries.some((entry) => entry.name === name)) return false
+
+  defaults.delete(name)
+  setEntries(entries.filter((entry) => entry.name !== name))
+  return true
+}
+
+export function setShapeWeight(name: string, weight: number) {
+  updateEntry(name, { weight: Math.max(0, weight) })
+}
+
+export function setShapeEnabled(name: string, enabled: boolean) {
+  updateEntry(name, { enabled })
+}
+
+/**
+ * Put every weight and on/off switch back to how it was registered
+ */
+export function resetShapeMix() {
+  setEntries(entries.map((entry) => ({ ...entry, ...defaults.get(entry.name) })))
+}
+
+/**
+ * All registered shapes, in registration order
+ *
+ * The array is replaced (never mutated) on every change.
+ */
+export function getShapes(): readonly ShapeEntry[] {
+  return entries
+}
+
+/**
+ * Listen for changes. Returns an unsubscribe function.
+ */
+export function subscribeShapes(listener: ShapesListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Pick an enabled shape by weight
+ *
+ * Returns undefined when nothing is enabled (or every weight is 0).
+ */
+export function pickShape(rng: RandomSource = Math.random): ShapeEntry | undefined {
+  return pickWeighted(rng, entries, (entry) => (entry.enabled ? entry.weight : 0))
+}
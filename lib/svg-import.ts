@@ -0,0 +1,168 @@
+/**
+ * EXPLAINER: SVG Import
+ *
+ * Turn the paths of an SVG file (or a bare path string) into shapes
+ * that fall like the built-in ones:
+ * 1. Every <path> is flattened into rings of points (lib/svg-path.ts)
+ * 2. The rings are centered and scaled to spawn size
+ * 3. createShape({ kind: 'outline', ... }) splits concave rings into
+ *    convex parts and keeps the outline for drawing (lib/outline.ts)
+ *
+ * Each path keeps its own fill color. Paths without one (or with a
+ * gradient, currentColor...) get a random palette color instead.
+ *
+ * The factories have the ShapeFactory signature, so imported shapes
+ * join the shape registry and the "Shape mix" panel like any other:
+ * ```
+ * registerSvgShapes(await file.text(), 'logo')
+ * ```
+ *
+ * Not supported (yet): transforms, <rect>/<circle>/<polygon> elements,
+ * strokes. Each path is scaled on its own, so a tiny dot in a logo
+ * falls as big as the letters next to it.
+ *
+ * CHALLENGE: Paste "M 0 0 L 100 0 L 100 100 Z" into the import box.
+ * Now try a heart or your favourite icon!
+ */
+
+import type Matter from 'matter-js'
+import { COLORS } from './matter-config'
+import { fitRings, getRingArea } from './outline'
+import { pickRandom, type RandomSource } from './random'
+import { createShape, type ShapeFactory } from './shape-factory'
+import { registerShape } from './shape-registry'
+import { flattenSvgPath, type FlattenOptions } from './svg-path'
+
+/**
+ * One path of an SVG, in the file's own coordinates
+ */
+export interface SvgShape {
+  /** The path's id attribute, if it had one */
+  id?: string
+  rings: Matter.Vector[][]
+  /** Resolved fill color, or null to use a palette color */
+  fill: string | null
+}
+
+export interface SvgImportOptions extends FlattenOptions {
+  /** Longest side of each imported shape, in pixels */
+  size?: number
+  /** Relative spawn weight of each shape in the mix */
+  weight?: number
+}
+
+const DEFAULT_SIZE = 80
+
+/** Rings smaller than this (in file units²) are stray specks */
+const MINIMUM_RING_AREA = 0.5
+
+/**
+ * Read a path's fill: its own style/attribute first, then its parents'
+ *
+ * Returns 'none' for unfilled paths and null when there is no plain
+ * color to keep.
+ */
+function resolveFill(element: Element): string | null {
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const style = current.getAttribute('style')?.match(/(?:^|;)\s*fill\s*:\s*([^;]+)/)
+    const value = (style?.[1] ?? current.getAttribute('fill'))?.trim()
+
+    if (!value || value === 'inherit') continue
+    if (value === 'none') return 'none'
+    // Gradients, patterns and currentColor have no single color
+    if (value.startsWith('url(') || value === 'currentColor') return null
+    return value
+  }
+
+  return null
+}
+
+/**
+ * Flatten path data, dropping rings with (almost) no area
+ */
+function toRings(data: string, options: FlattenOptions): Matter.Vector[][] {
+  return flattenSvgPath(data, options).filter((ring) => Math.abs(getRingArea(ring)) >= MINIMUM_RING_AREA)
+}
+
+/**
+ * Read every filled path from an SVG document or a bare path string
+ *
+ * Throws if the source is neither valid SVG nor valid path data.
+ */
+export function parseSvg(source: string, options: FlattenOptions = {}): SvgShape[] {
+  const text = source.trim()
+
+  // Bare path data, e.g. copied from a design tool
+  if (!text.startsWith('<')) {
+    return [{ rings: toRings(text, options), fill: null }].filter((shape) => shape.rings.length > 0)
+  }
+
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml')
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Not a valid SVG file')
+  }
+
+  return Array.from(doc.querySelectorAll('path')).flatMap((path): SvgShape[] => {
+    const data = path.getAttribute('d')
+    const fill = resolveFill(path)
+    if (!data || fill === 'none') return []
+
+    const rings = toRings(data, options)
+    if (rings.length === 0) return []
+
+    return [{ ...(path.id && { id: path.id }), rings, fill }]
+  })
+}
+
+/**
+ * Make a ShapeFactory that spawns an imported shape
+ *
+ * The shape uses the current material from the settings panel.
+ */
+export function createSvgFactory(shape: SvgShape, size: number = DEFAULT_SIZE, label?: string): ShapeFactory {
+  const rings = fitRings(shape.rings, size)
+
+  return (x: number, y: number, rng: RandomSource = Math.random) =>
+    createShape({
+      kind: 'outline',
+      x,
+      y,
+      rings,
+      color: shape.fill ?? pickRandom(rng, COLORS),
+      ...(label !== undefined && { label }),
+    })
+}
+
+/**
+ * Import an SVG and register one shape per path
+ *
+ * Shapes are named '<name>' or '<name>-2', '<name>-3'... for files with
+ * several paths, and can be removed from the mix again.
+ * Returns the registered names. Throws if nothing could be imported.
+ */
+export function registerSvgShapes(source: string, name: string, options: SvgImportOptions = {}): string[] {
+  const { size = DEFAULT_SIZE, weight, ...flattenOptions } = options
+
+  // Try each shape once: outlines with no solid area can't become
+  // bodies, and a factory must never throw in the middle of a spawn
+  const shapes = parseSvg(source, flattenOptions).filter((shape) => {
+    try {
+      createSvgFactory(shape, size)(0, 0)
+      return true
+    } catch {
+      return false
+    }
+  })
+
+  if (shapes.length === 0) {
+    throw new Error('No filled paths found to import')
+  }
+
+  return shapes.map((shape, index) => {
+    const suffix = index === 0 ? '' : `-${index + 1}`
+    const label = shape.id ?? `${name}${suffix}`
+
+    registerShape(`svg:${name}${suffix}`, createSvgFactory(shape, size, label), { label, weight, removable: true })
+    return `svg:${name}${suffix}`
+  })
+}
@@ -0,0 +1,404 @@
+/**
+ * EXPLAINER: SVG Path Flattening
+ *
+ * An SVG path is a little drawing language:
+ *   "M 10 10 L 90 10 C 90 50, 50 90, 10 90 Z"
+ *   move to, line to, curve to, close
+ *
+ * Physics engines only understand straight edges, so every curve is
+ * FLATTENED into short line segments:
+ * - Quadratic and cubic Béziers (Q, T, C, S) are sampled along the curve
+ * - Elliptical arcs (A) are first turned into cubic Béziers
+ * - Each subpath (every M) becomes one ring of points
+ *
+ * More segments = smoother outline, but more work for the engine.
+ *
+ * CHALLENGE: Draw a circle as a path with two arcs:
+ * "M 0 50 A 50 50 0 1 0 100 50 A 50 50 0 1 0 0 50 Z"
+ * How many points does flattenSvgPath return?
+ *
+ * Spec: https://www.w3.org/TR/SVG/paths.html
+ */
+
+import type Matter from 'matter-js'
+
+type Point = Matter.Vector
+
+type Segment = { kind: 'line'; to: Point } | { kind: 'cubic'; c1: Point; c2: Point; to: Point }
+
+interface Subpath {
+  start: Point
+  segments: Segment[]
+}
+
+export interface FlattenOptions {
+  /**
+   * Roughly how many segments a curve as long as the whole path gets
+   * (short curves get fewer, never less than 2 or more than 16)
+   */
+  detail?: number
+}
+
+/**
+ * Reads numbers and flags out of path data
+ *
+ * Path data can be squashed together: "10-5.5.5" reads as 10 -5.5 0.5,
+ * and arc flags can touch the next number ("a1 1 0 00 1 1").
+ */
+class PathScanner {
+  private index = 0
+
+  constructor(private readonly data: string) {}
+
+  private skipSeparators() {
+    while (this.index < this.data.length && /[\s,]/.test(this.data[this.index])) {
+      this.index++
+    }
+  }
+
+  atEnd(): boolean {
+    this.skipSeparators()
+    return this.index >= this.data.length
+  }
+
+  /**
+   * Next command letter, or null if a number comes next (implicit repeat)
+   */
+  readCommand(): string | null {
+    this.skipSeparators()
+    const char = this.data[this.index]
+
+    if (char && /[a-zA-Z]/.test(char)) {
+      this.index++
+      return char
+    }
+
+    return null
+  }
+
+  readNumber(): number {
+    this.skipSeparators()
+    const match = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(this.data.slice(this.index))
+
+    if (!match) {
+      throw new Error(`Invalid SVG path data near "${this.data.slice(this.index, this.index + 10)}"`)
+    }
+
+    this.index += match[0].length
+    return Number(match[0])
+  }
+
+  /**
+   * Arc flags are a single 0 or 1
+   */
+  readFlag(): boolean {
+    this.skipSeparators()
+    const char = this.data[this.index]
+
+    if (char !== '0' && char !== '1') {
+      throw new Error(`Invalid SVG arc flag near "${this.data.slice(this.index, this.index + 10)}"`)
+    }
+
+    this.index++
+    return char === '1'
+  }
+}
+
+/**
+ * Turn an elliptical arc into cubic Béziers
+ *
+ * Uses the endpoint → center conversion from the SVG spec, then
+ * approximates each ≤ 90° piece with one cubic curve.
+ */
+function arcToCubics(
+  from: Point,
+  radiusX: number,
+  radiusY: number,
+  rotationDegrees: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Point
+): Segment[] {
+  let rx = Math.abs(radiusX)
+  let ry = Math.abs(radiusY)
+
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) {
+    return [{ kind: 'line', to }]
+  }
+
+  const phi = (rotationDegrees * Math.PI) / 180
+  const cos = Math.cos(phi)
+  const sin = Math.sin(phi)
+
+  // Step 1: move the midpoint to the origin and undo the rotation
+  const dx = (from.x - to.x) / 2
+  const dy = (from.y - to.y) / 2
+  const x1 = cos * dx + sin * dy
+  const y1 = -sin * dx + cos * dy
+
+  // Radii too small for the distance? Scale them up
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry)
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda)
+    ry *= Math.sqrt(lambda)
+  }
+
+  // Step 2: the center
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator))
+  const cx1 = (factor * rx * y1) / ry
+  const cy1 = (-factor * ry * x1) / rx
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2
+
+  // Step 3: start angle and sweep
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy)
+
+  const startAngle = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry)
+  let deltaAngle = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry)
+
+  if (!sweep && deltaAngle > 0) deltaAngle -= Math.PI * 2
+  if (sweep && deltaAngle < 0) deltaAngle += Math.PI * 2
+
+  // Step 4: one cubic per quarter turn (or less)
+  const pieces = Math.ceil(Math.abs(deltaAngle) / (Math.PI / 2))
+  const pieceAngle = deltaAngle / pieces
+  const handle = (4 / 3) * Math.tan(pieceAngle / 4)
+
+  const pointAt = (theta: number, offset: number): Point => {
+    // Point on the unit circle, plus `offset` along the tangent
+    const ux = Math.cos(theta) - offset * Math.sin(theta)
+    const uy = Math.sin(theta) + offset * Math.cos(theta)
+
+    return {
+      x: cx + cos * rx * ux - sin * ry * uy,
+      y: cy + sin * rx * ux + cos * ry * uy,
+    }
+  }
+
+  const segments: Segment[] = []
+  for (let i = 0; i < pieces; i++) {
+    const theta1 = startAngle + i * pieceAngle
+    const theta2 = theta1 + pieceAngle
+
+    segments.push({
+      kind: 'cubic',
+      c1: pointAt(theta1, handle),
+      c2: pointAt(theta2, -handle),
+      to: i === pieces - 1 ? to : pointAt(theta2, 0),
+    })
+  }
+
+  return segments
+}
+
+/**
+ * Parse path data into subpaths of lines and cubic curves (absolute coordinates)
+ */
+function parsePathData(data: string): Subpath[] {
+  const scanner = new PathScanner(data)
+  const subpaths: Subpath[] = []
+
+  let current: Subpath | null = null
+  let point: Point = { x: 0, y: 0 }
+  let command: string | null = null
+  // Reflected control points for S and T
+  let lastCubicControl: Point | null = null
+  let lastQuadControl: Point | null = null
+
+  const addSegment = (segment: Segment) => {
+    if (!current) {
+      current = { start: point, segments: [] }
+      subpaths.push(current)
+    }
+
+    current.segments.push(segment)
+    point = segment.to
+  }
+
+  const addQuadratic = (control: Point, to: Point) => {
+    // A quadratic is a cubic with both handles 2/3 of the way to the control point
+    addSegment({
+      kind: 'cubic',
+      c1: { x: point.x + (2 / 3) * (control.x - point.x), y: point.y + (2 / 3) * (control.y - point.y) },
+      c2: { x: to.x + (2 / 3) * (control.x - to.x), y: to.y + (2 / 3) * (control.y - to.y) },
+      to,
+    })
+  }
+
+  while (!scanner.atEnd()) {
+    const next = scanner.readCommand()
+
+    if (next) {
+      command = next
+    }
+
+    // Numbers without a command repeat the last one - except after Z
+    if (!command || (!next && /[zZ]/.test(command))) {
+      throw new Error(`SVG path data needs a command before "${data.slice(0, 20)}"`)
+    }
+
+    const type: string = command
+    const relative: boolean = type === type.toLowerCase()
+    const readPoint = (): Point => {
+      const x = scanner.readNumber()
+      const y = scanner.readNumber()
+      return relative ? { x: point.x + x, y: point.y + y } : { x, y }
+    }
+
+    const previousCubicControl: Point | null = lastCubicControl
+    const previousQuadControl: Point | null = lastQuadControl
+    lastCubicControl = null
+    lastQuadControl = null
+
+    switch (type.toUpperCase()) {
+      case 'M': {
+        point = readPoint()
+        current = { start: point, segments: [] }
+        subpaths.push(current)
+        // Extra pairs after M are treated as L
+        command = relative ? 'l' : 'L'
+        break
+      }
+
+      case 'L':
+        addSegment({ kind: 'line', to: readPoint() })
+        break
+
+      case 'H': {
+        const x = scanner.readNumber()
+        addSegment({ kind: 'line', to: { x: relative ? point.x + x : x, y: point.y } })
+        break
+      }
+
+      case 'V': {
+        const y = scanner.readNumber()
+        addSegment({ kind: 'line', to: { x: point.x, y: relative ? point.y + y : y } })
+        break
+      }
+
+      case 'C': {
+        const c1 = readPoint()
+        const c2 = readPoint()
+        const to = readPoint()
+        addSegment({ kind: 'cubic', c1, c2, to })
+        lastCubicControl = c2
+        break
+      }
+
+      case 'S': {
+        const c1: Point = previousCubicControl
+          ? { x: 2 * point.x - previousCubicControl.x, y: 2 * point.y - previousCubicControl.y }
+          : point
+        const c2 = readPoint()
+        const to = readPoint()
+        addSegment({ kind: 'cubic', c1, c2, to })
+        lastCubicControl = c2
+        break
+      }
+
+      case 'Q': {
+        const control = readPoint()
+        addQuadratic(control, readPoint())
+        lastQuadControl = control
+        break
+      }
+
+      case 'T': {
+        const control: Point = previousQuadControl
+          ? { x: 2 * point.x - previousQuadControl.x, y: 2 * point.y - previousQuadControl.y }
+          : point
+        addQuadratic(control, readPoint())
+        lastQuadControl = control
+        break
+      }
+
+      case 'A': {
+        const radiusX = scanner.readNumber()
+        const radiusY = scanner.readNumber()
+        const rotation = scanner.readNumber()
+        const largeArc = scanner.readFlag()
+        const sweep = scanner.readFlag()
+        const to = readPoint()
+        arcToCubics(point, radiusX, radiusY, rotation, largeArc, sweep, to).forEach(addSegment)
+        break
+      }
+
+      case 'Z': {
+        if (current) {
+          point = current.start
+          // The next command starts a new subpath from here
+          current = null
+        }
+        break
+      }
+
+      default:
+        throw new Error(`Unsupported SVG path command "${type}"`)
+    }
+  }
+
+  return subpaths
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y)
+}
+
+function cubicAt(from: Point, c1: Point, c2: Point, to: Point, t: number): Point {
+  const u = 1 - t
+  return {
+    x: u * u * u * from.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * to.x,
+    y: u * u * u * from.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * to.y,
+  }
+}
+
+/**
+ * Flatten SVG path data into rings of points (one ring per subpath)
+ *
+ * Every subpath is treated as closed - bodies need a closed outline.
+ * Rings with fewer than 3 points are dropped.
+ */
+export function flattenSvgPath(data: string, { detail = 24 }: FlattenOptions = {}): Matter.Vector[][] {
+  const subpaths = parsePathData(data)
+
+  // Size of the whole path, so curve detail doesn't depend on units
+  const allPoints = subpaths.flatMap((subpath) => [
+    subpath.start,
+    ...subpath.segments.flatMap((segment) =>
+      segment.kind === 'cubic' ? [segment.c1, segment.c2, segment.to] : [segment.to]
+    ),
+  ])
+  const xs = allPoints.map((p) => p.x)
+  const ys = allPoints.map((p) => p.y)
+  const size = Math.hypot(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) || 1
+
+  return subpaths
+    .map((subpath) => {
+      const ring: Point[] = [subpath.start]
+      let from = subpath.start
+
+      subpath.segments.forEach((segment) => {
+        if (segment.kind === 'cubic') {
+          // Control polygon length is a good upper bound for curve length
+          const length =
+            distance(from, segment.c1) + distance(segment.c1, segment.c2) + distance(segment.c2, segment.to)
+          const steps = Math.min(16, Math.max(2, Math.ceil((length / size) * detail)))
+
+          for (let i = 1; i <= steps; i++) {
+            ring.push(cubicAt(from, segment.c1, segment.c2, segment.to, i / steps))
+          }
+        } else {
+          ring.push(segment.to)
+        }
+
+        from = segment.to
+      })
+
+      // Drop repeated points (including an explicit closing point)
+      return ring.filter((p, i) => distance(p, ring[(i + 1) % ring.length]) > 1e-6)
+    })
+    .filter((ring) => ring.length >= 3)
+}
@@ -0,0 +1,150 @@
+/**
+ * EXPLAINER: Text Bodies
+ *
+ * Letters are just outlines! A font file stores every glyph as a path
+ * of lines and Bézier curves - the same language as SVG paths.
+ *
+ * createTextBodies(font, 'HELLO', x, y) makes ONE body per glyph:
+ * 1. opentype.js lays out the text (advance widths, kerning) and gives
+ *    us each glyph's path
+ * 2. The path is flattened into rings (lib/svg-path.ts)
+ * 3. The rings become an outline body (lib/outline.ts) - holes like
+ *    the inside of an "o" or "A" are cut out of the collision shape too
+ *
+ * The bodies start exactly where the letters would be printed, then
+ * gravity takes over. They are drawn like every other outline body,
+ * with the neubrutalist border and hard shadow from STYLE_CONFIG.
+ *
+ * The default font is Geist Black (public/fonts, SIL Open Font
+ * License). Thick letters make sturdier bodies than thin ones!
+ *
+ * CHALLENGE: Drop "HELLO" and watch the holes in the O. Can you make
+ * a circle fall through it?
+ */
+
+import type Matter from 'matter-js'
+import { parse, type Font } from 'opentype.js'
+import { COLORS } from './matter-config'
+import type { MaterialName } from './materials'
+import { getOutlineCentroid, getRingArea } from './outline'
+import { pickRandom, type RandomSource } from './random'
+import type { MaterialSettings } from './settings-store'
+import { createShape } from './shape-factory'
+import { flattenSvgPath } from './svg-path'
+
+export const DEFAULT_FONT_URL = '/fonts/Geist-Black.ttf'
+
+export interface TextBodyOptions {
+  /** Font size in pixels */
+  fontSize?: number
+  /** Shrink the text (never grow it) to fit this width */
+  maxWidth?: number
+  /** One color for every letter (default: a random palette color each) */
+  color?: string
+  material?: MaterialName | Partial<MaterialSettings>
+  rng?: RandomSource
+}
+
+const DEFAULT_FONT_SIZE = 120
+
+/**
+ * Curve detail for glyphs - a bit coarser than SVG imports. Round
+ * letters with holes ("O", "8") split into many convex pieces, and
+ * fewer points means fewer pieces.
+ */
+const GLYPH_DETAIL = 12
+
+/** Rings smaller than this (px²) are too small to collide */
+const MINIMUM_RING_AREA = 4
+
+// One download per font, shared by everyone who asks
+const fontCache = new Map<string, Promise<Font>>()
+
+/**
+ * Download and parse a font file (TTF, OTF or WOFF)
+ */
+export function loadFont(url: string = DEFAULT_FONT_URL): Promise<Font> {
+  let font = fontCache.get(url)
+
+  if (!font) {
+    font = fetch(url)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Could not load font ${url} (${response.status})`)
+        }
+        return response.arrayBuffer()
+      })
+      .then((buffer) => parse(buffer))
+
+    // A failed download can be retried later
+    font.catch(() => fontCache.delete(url))
+    fontCache.set(url, font)
+  }
+
+  return font
+}
+
+/**
+ * Turn a string into one body per glyph, centered on (x, y)
+ *
+ * Spaces (and specks too small to collide) don't get a body.
+ */
+export function createTextBodies(
+  font: Font,
+  text: string,
+  x: number,
+  y: number,
+  options: TextBodyOptions = {}
+): Matter.Body[] {
+  const { maxWidth, color, material, rng = Math.random } = options
+  let fontSize = options.fontSize ?? DEFAULT_FONT_SIZE
+
+  const width = font.getAdvanceWidth(text, fontSize)
+  if (maxWidth !== undefined && width > maxWidth) {
+    fontSize *= maxWidth / width
+  }
+
+  // Lay the text out around (0, 0): the font's baseline is y = 0
+  const glyphs = font.stringToGlyphs(text)
+  const glyphRings = font
+    .getPaths(text, 0, 0, fontSize)
+    .map((path) =>
+      flattenSvgPath(path.toPathData(2), { detail: GLYPH_DETAIL }).filter(
+        (ring) => Math.abs(getRingArea(ring)) >= MINIMUM_RING_AREA
+      )
+    )
+
+  const allPoints = glyphRings.flat(2)
+  if (allPoints.length === 0) return []
+
+  // Center the whole line of text on (x, y)
+  const xs = allPoints.map((point) => point.x)
+  const ys = allPoints.map((point) => point.y)
+  const offsetX = x - (Math.min(...xs) + Math.max(...xs)) / 2
+  const offsetY = y - (Math.min(...ys) + Math.max(...ys)) / 2
+
+  return glyphRings.flatMap((rings, index) => {
+    if (rings.length === 0) return []
+
+    // Bodies sit on their centre of mass - build the glyph around it
+    const centroid = getOutlineCentroid(rings)
+    const unicode = glyphs[index]?.unicode
+
+    try {
+      return [
+        createShape({
+          kind: 'outline',
+          x: centroid.x + offsetX,
+          y: centroid.y + offsetY,
+          rings: rings.map((ring) => ring.map((point) => ({ x: point.x - centroid.x, y: point.y - centroid.y }))),
+          color: color ?? pickRandom(rng, COLORS),
+          ...(material !== undefined && { material }),
+          label: unicode === undefined ? 'Glyph' : `Glyph ${String.fromCodePoint(unicode)}`,
+        }),
+      ]
+    } catch {
+      // Nothing solid left after decomposition (a tiny dot or accent)
+      return []
+    }
+  })
+}
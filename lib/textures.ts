@@ -0,0 +1,159 @@
+/**
+ * EXPLAINER: Textures
+ *
+ * Besides a fill color, a body can show an IMAGE:
+ * - sprite: one image across the body (a product photo, an avatar)
+ * - pattern: the image repeated like wallpaper (bricks, stripes)
+ *
+ * The image is clipped to the body's outline and turns with the body.
+ * The fill color is still drawn underneath, so the hard shadow stays
+ * and transparent images show the color through.
+ *
+ * Like materials, the texture lives on body.plugin.texture:
+ * ```
+ * setBodyTexture(body, { src: '/avatar.png', mode: 'sprite' })
+ * createShape({ kind: 'circle', x, y, radius: 40, texture: { src, mode: 'sprite' } })
+ * ```
+ *
+ * Images load in the background. Until one is ready, the body is drawn
+ * with its plain fill color.
+ *
+ * CHALLENGE: Import a photo of your face with "round" ticked and
+ * spawn a pile of yourself!
+ */
+
+import type Matter from 'matter-js'
+import { COLORS } from './matter-config'
+import { getBodyOutline } from './outline'
+import { pickRandom, type RandomSource } from './random'
+import { createShape, type ShapeFactory } from './shape-factory'
+
+export type TextureMode = 'sprite' | 'pattern'
+
+export interface BodyTexture {
+  /** Image URL (a data: URL works too) */
+  src: string
+  mode: TextureMode
+  /**
+   * Image scale. Sprites default to covering the whole body,
+   * patterns to the image's own size (1).
+   */
+  scale?: number
+  /** Move the image, in pixels (body space, before rotation) */
+  offset?: Matter.Vector
+}
+
+export function isBodyTexture(value: unknown): value is BodyTexture {
+  if (!value || typeof value !== 'object') return false
+  const { src, mode } = value as Partial<BodyTexture>
+  return typeof src === 'string' && (mode === 'sprite' || mode === 'pattern')
+}
+
+/**
+ * The texture of a body, or undefined for plain color fills
+ */
+export function getBodyTexture(body: Matter.Body): BodyTexture | undefined {
+  const texture: unknown = body.plugin?.texture
+  return isBodyTexture(texture) ? texture : undefined
+}
+
+/**
+ * Give a body a texture (or remove it with null)
+ */
+export function setBodyTexture(body: Matter.Body, texture: BodyTexture | null) {
+  const plugin = { ...body.plugin }
+  delete plugin.texture
+  body.plugin = texture ? { ...plugin, texture } : plugin
+
+  // Start loading now, so it's ready by the time the body is drawn
+  if (texture) getTextureImage(texture.src)
+}
+
+// Loaded (or loading) images, one per src
+const images = new Map<string, HTMLImageElement>()
+
+/**
+ * The image for a src once it has loaded, otherwise undefined
+ *
+ * The first call starts the download.
+ */
+export function getTextureImage(src: string): HTMLImageElement | undefined {
+  let image = images.get(src)
+
+  if (!image) {
+    image = new Image()
+    image.src = src
+    images.set(src, image)
+  }
+
+  return image.complete && image.naturalWidth > 0 ? image : undefined
+}
+
+/**
+ * Wait for an image to load (rejects if it can't be decoded)
+ */
+export async function loadTextureImage(src: string): Promise<HTMLImageElement> {
+  getTextureImage(src)
+  const image = images.get(src) as HTMLImageElement
+  await image.decode()
+  return image
+}
+
+/**
+ * Width and height of a body before rotation (what a sprite covers)
+ */
+export function getBodySize(body: Matter.Body): { width: number; height: number } {
+  if (body.circleRadius) {
+    return { width: body.circleRadius * 2, height: body.circleRadius * 2 }
+  }
+
+  // Outlines are already unrotated; plain vertices are turned back
+  const points =
+    getBodyOutline(body)?.flat() ??
+    body.vertices.map((vertex) => {
+      const dx = vertex.x - body.position.x
+      const dy = vertex.y - body.position.y
+      const cos = Math.cos(-body.angle)
+      const sin = Math.sin(-body.angle)
+      return { x: dx * cos - dy * sin, y: dx * sin + dy * cos }
+    })
+
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  return { width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) }
+}
+
+export interface ImageFactoryOptions {
+  /** 'circle' for avatars, 'rectangle' keeps the image's aspect ratio */
+  shape?: 'circle' | 'rectangle'
+  /** Diameter, or the longer side of the rectangle, in pixels */
+  size?: number
+  mode?: TextureMode
+}
+
+/**
+ * Make a ShapeFactory that spawns bodies showing an image
+ *
+ * Rectangles take the image's aspect ratio once it has loaded
+ * (square until then).
+ */
+export function createImageFactory(src: string, options: ImageFactoryOptions = {}): ShapeFactory {
+  const { shape = 'rectangle', size = 80, mode = 'sprite' } = options
+  const texture: BodyTexture = { src, mode }
+  getTextureImage(src)
+
+  return (x: number, y: number, rng: RandomSource = Math.random) => {
+    const color = pickRandom(rng, COLORS)
+
+    if (shape === 'circle') {
+      return createShape({ kind: 'circle', x, y, radius: size / 2, color, texture })
+    }
+
+    const image = getTextureImage(src)
+    const aspect = image ? image.naturalWidth / image.naturalHeight : 1
+    const width = aspect >= 1 ? size : size * aspect
+    const height = aspect >= 1 ? size / aspect : size
+
+    return createShape({ kind: 'rectangle', x, y, width, height, color, texture })
+  }
+}
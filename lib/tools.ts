@@ -0,0 +1,653 @@
+/**
+ * EXPLAINER: Tools
+ *
+ * What a press on the canvas does depends on the selected tool:
+ * - grab: drag shapes and throw them (lib/pointer-drag.ts)
+ * - flick: a slingshot - press on a shape, pull BACK, let go, and it
+ *   flies the other way. The further you pull, the faster it goes.
+ * - explode: a blast at the press point. Shapes nearby are pushed
+ *   straight away from it; the push fades out with distance (falloff)
+ *   and light shapes fly further than heavy ones.
+ * - erase: a brush - every shape it touches is removed
+ * - freeze: turn a shape static (it hangs in the air, and others can
+ *   land on it). Press it again to unfreeze.
+ * - spawn: drop a random shape right under the pointer
+ * - build: drag to draw a static line, ramp or platform, click to
+ *   place a peg (lib/obstacles.ts). Press an obstacle to select it,
+ *   drag it to move it.
+ * - draw: sketch a closed outline - it becomes a shape with the
+ *   current material (lib/freehand.ts)
+ *
+ * Every tool is a small object with down / move / up handlers. The
+ * ToolController listens to the canvas pointer events and hands them
+ * to the active tool - one tool at a time, but every finger counts
+ * (two fingers can flick two shapes).
+ *
+ * Tools that need to show something (the slingshot band, the blast
+ * ring, the brush) draw it in drawOverlay, on top of the world.
+ *
+ * CHALLENGE: Freeze a few shapes in a row to build a shelf, then
+ * spawn shapes on top of it. What happens when you unfreeze it?
+ */
+
+import Matter from 'matter-js'
+import { createFreehandBody, isClosedStroke } from './freehand'
+import { STYLE_CONFIG } from './matter-config'
+import { getObstacleVertices, PEG_RADIUS, type ObstacleManager } from './obstacles'
+import { PointerDragController, type PointerDragOptions } from './pointer-drag'
+import type { PhysicsWorld } from './physics-world'
+import { getSettings } from './settings-store'
+import { createRandomShape } from './shape-factory'
+
+const { Bodies, Body, Query, Sleeping, Vector } = Matter
+
+export type ToolName = 'grab' | 'flick' | 'explode' | 'erase' | 'freeze' | 'spawn' | 'build' | 'draw'
+
+export interface ToolInfo {
+  name: ToolName
+  label: string
+  /** One line for the palette */
+  description: string
+}
+
+export const TOOLS: readonly ToolInfo[] = [
+  { name: 'grab', label: 'Grab', description: 'Drag shapes and throw them' },
+  { name: 'flick', label: 'Flick', description: 'Pull a shape back and let go' },
+  { name: 'explode', label: 'Explode', description: 'Blast shapes away from the click' },
+  { name: 'erase', label: 'Erase', description: 'Brush over shapes to remove them' },
+  { name: 'freeze', label: 'Freeze', description: 'Pin a shape in place (again to unfreeze)' },
+  { name: 'spawn', label: 'Spawn', description: 'Drop a shape under the pointer' },
+  { name: 'build', label: 'Build', description: 'Drag to draw obstacles, click for pegs' },
+  { name: 'draw', label: 'Draw', description: 'Sketch a closed outline to make a shape' },
+]
+
+/**
+ * A pointer position at a moment in time (ms)
+ */
+export interface ToolPointer {
+  id: number
+  x: number
+  y: number
+  time: number
+}
+
+export interface Tool {
+  /** CSS cursor over the canvas while the tool is active */
+  cursor: string
+  /**
+   * A pointer was pressed. Return true to keep getting its moves
+   * (even outside the canvas) until it is released.
+   */
+  down(pointer: ToolPointer): boolean
+  move(pointer: ToolPointer): void
+  up(pointer: ToolPointer): void
+  /** The pointer was taken away (tool switch, system gesture) - no action */
+  cancel(pointerId: number): void
+  /** Draw on top of the world. `hover` is the last pointer position over the canvas. */
+  draw?(ctx: CanvasRenderingContext2D, hover: Matter.Vector | null, now: number): void
+}
+
+/** Slingshot speed per px pulled back (px per step) */
+const FLICK_POWER = 0.2
+
+/** Fastest flick, in px per step */
+const MAX_FLICK_SPEED = 40
+
+/** Reach of an explosion (px) */
+export const EXPLOSION_RADIUS = 200
+
+/**
+ * Impulse at the center of an explosion. A body's speed change is
+ * impulse / mass, so a mass-2 shape right next to the blast gets +30.
+ */
+const EXPLOSION_IMPULSE = 60
+
+/** Cap on the speed an explosion adds (px per step) - tiny shapes would vanish */
+const MAX_EXPLOSION_SPEED = 40
+
+/** How long the blast ring is drawn (ms) */
+const EXPLOSION_DURATION = 300
+
+/** Radius of the eraser brush (px) */
+export const ERASER_RADIUS = 30
+
+/** A build press that moves less than this is a click: it places a peg (px) */
+const CLICK_DISTANCE = 6
+
+/** Freehand strokes only keep points at least this far apart (px) */
+const STROKE_SPACING = 3
+
+/** Accent color for selections and previews */
+const HIGHLIGHT_COLOR = '#ec571c'
+
+/**
+ * Is this body frozen by the freeze tool?
+ *
+ * Frozen bodies are static, but unlike walls they are still drawn and
+ * can be unfrozen. The flag lives on body.plugin, like the material.
+ */
+export function isFrozen(body: Matter.Body): boolean {
+  return body.plugin?.frozen === true
+}
+
+/**
+ * Freeze a body in place, or let a frozen one move again
+ */
+export function setFrozen(body: Matter.Body, frozen: boolean) {
+  // Never touch walls and other bodies that were static to begin with
+  if (body.isStatic && !isFrozen(body)) return
+
+  // Matter remembers the mass and inertia, and gives them back on unfreeze
+  Body.setStatic(body, frozen)
+  body.plugin = { ...body.plugin, frozen }
+
+  if (!frozen) Sleeping.set(body, false)
+}
+
+/**
+ * Bodies the tools may act on: moving shapes and frozen ones (not walls)
+ */
+function getToolBodies(physics: PhysicsWorld): Matter.Body[] {
+  return physics.world.bodies.filter((body) => !body.isStatic || isFrozen(body))
+}
+
+function clampSpeed(velocity: Matter.Vector, maxSpeed: number): Matter.Vector {
+  const speed = Vector.magnitude(velocity)
+  return speed > maxSpeed ? Vector.mult(velocity, maxSpeed / speed) : velocity
+}
+
+/**
+ * Drag and throw, one spring per pointer
+ */
+export function createGrabTool(drag: PointerDragController): Tool {
+  return {
+    cursor: 'grab',
+    down: (pointer) => drag.grab(pointer.id, pointer, pointer.time) !== null,
+    move: (pointer) => drag.move(pointer.id, pointer, pointer.time),
+    up: (pointer) => {
+      drag.move(pointer.id, pointer, pointer.time)
+      drag.release(pointer.id, pointer.time)
+    },
+    cancel: (pointerId) => drag.release(pointerId),
+  }
+}
+
+/**
+ * Slingshot: the launch velocity points from the pointer back to the body
+ */
+export function createFlickTool(physics: PhysicsWorld, drag: PointerDragController): Tool {
+  const aims = new Map<number, { body: Matter.Body; pointer: Matter.Vector }>()
+
+  const getLaunchVelocity = (body: Matter.Body, pointer: Matter.Vector) =>
+    clampSpeed(Vector.mult(Vector.sub(body.position, pointer), FLICK_POWER), MAX_FLICK_SPEED)
+
+  return {
+    cursor: 'crosshair',
+    down: (pointer) => {
+      const body = drag.getBodyAt(pointer)
+      if (!body) return false
+
+      aims.set(pointer.id, { body, pointer: { x: pointer.x, y: pointer.y } })
+      return true
+    },
+    move: (pointer) => {
+      const aim = aims.get(pointer.id)
+      if (aim) aim.pointer = { x: pointer.x, y: pointer.y }
+    },
+    up: (pointer) => {
+      const aim = aims.get(pointer.id)
+      if (!aim) return
+
+      aims.delete(pointer.id)
+      // Removed while aiming (culled, erased...)
+      if (!physics.world.bodies.includes(aim.body) || aim.body.isStatic) return
+
+      Sleeping.set(aim.body, false)
+      Body.setVelocity(aim.body, getLaunchVelocity(aim.body, pointer))
+    },
+    cancel: (pointerId) => {
+      aims.delete(pointerId)
+    },
+    draw: (ctx) => {
+      aims.forEach(({ body, pointer }) => {
+        const launch = getLaunchVelocity(body, pointer)
+
+        ctx.save()
+        ctx.strokeStyle = STYLE_CONFIG.strokeColor
+        ctx.lineCap = 'round'
+
+        // The band, from the shape to the pointer
+        ctx.lineWidth = 3
+        ctx.beginPath()
+        ctx.moveTo(body.position.x, body.position.y)
+        ctx.lineTo(pointer.x, pointer.y)
+        ctx.stroke()
+
+        // Where it will go: a dashed line the other way
+        ctx.lineWidth = STYLE_CONFIG.lineWidth
+        ctx.setLineDash([6, 6])
+        ctx.beginPath()
+        ctx.moveTo(body.position.x, body.position.y)
+        ctx.lineTo(body.position.x + launch.x * 5, body.position.y + launch.y * 5)
+        ctx.stroke()
+        ctx.restore()
+      })
+    },
+  }
+}
+
+/**
+ * Radial blast with linear falloff: full impulse at the center, none at the edge
+ */
+export function createExplodeTool(physics: PhysicsWorld): Tool {
+  const blasts: { x: number; y: number; time: number }[] = []
+
+  return {
+    cursor: 'crosshair',
+    down: (pointer) => {
+      explode(physics, pointer)
+      blasts.push({ x: pointer.x, y: pointer.y, time: pointer.time })
+      return false
+    },
+    move: () => {},
+    up: () => {},
+    cancel: () => {},
+    draw: (ctx, _hover, now) => {
+      // Forget rings that finished expanding
+      while (blasts.length > 0 && now - blasts[0].time > EXPLOSION_DURATION) blasts.shift()
+
+      blasts.forEach((blast) => {
+        const progress = Math.max(0, (now - blast.time) / EXPLOSION_DURATION)
+
+        ctx.save()
+        ctx.globalAlpha = 1 - progress
+        ctx.strokeStyle = STYLE_CONFIG.strokeColor
+        ctx.lineWidth = 4
+        ctx.beginPath()
+        ctx.arc(blast.x, blast.y, EXPLOSION_RADIUS * progress, 0, Math.PI * 2)
+        ctx.stroke()
+        ctx.restore()
+      })
+    },
+  }
+}
+
+/**
+ * Push every moving body within EXPLOSION_RADIUS away from `center`
+ *
+ * The speed change is impulse / mass, so heavy shapes barely move.
+ * Works in Node too: explode(physics, { x: 400, y: 500 })
+ */
+export function explode(physics: PhysicsWorld, center: Matter.Vector, radius: number = EXPLOSION_RADIUS) {
+  physics.getDynamicBodies().forEach((body) => {
+    const offset = Vector.sub(body.position, center)
+    const distance = Vector.magnitude(offset)
+    if (distance > radius) return
+
+    // Right on the center: blow it straight up
+    const direction = distance === 0 ? { x: 0, y: -1 } : Vector.div(offset, distance)
+    const impulse = EXPLOSION_IMPULSE * (1 - distance / radius)
+    const kick = clampSpeed(Vector.mult(direction, impulse / body.mass), MAX_EXPLOSION_SPEED)
+
+    Sleeping.set(body, false)
+    Body.setVelocity(body, Vector.add(body.velocity, kick))
+  })
+}
+
+/**
+ * Remove every body the brush touches, while the pointer is down
+ */
+export function createEraseTool(physics: PhysicsWorld): Tool {
+  const erase = (point: Matter.Vector) => {
+    // A circle the size of the brush, only used for the overlap test
+    const brush = Bodies.circle(point.x, point.y, ERASER_RADIUS)
+    const touched = Query.collides(brush, getToolBodies(physics)).map((collision) =>
+      // Compound bodies report the part that was hit
+      collision.bodyA === brush ? collision.bodyB.parent : collision.bodyA.parent
+    )
+
+    if (touched.length > 0) physics.removeBody([...new Set(touched)])
+  }
+
+  return {
+    cursor: 'none',
+    down: (pointer) => {
+      erase(pointer)
+      return true
+    },
+    move: (pointer) => erase(pointer),
+    up: () => {},
+    cancel: () => {},
+    draw: (ctx, hover) => {
+      if (!hover) return
+
+      ctx.save()
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.6)'
+      ctx.strokeStyle = STYLE_CONFIG.strokeColor
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      ctx.arc(hover.x, hover.y, ERASER_RADIUS, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.stroke()
+      ctx.restore()
+    },
+  }
+}
+
+/**
+ * Toggle static on the topmost shape under the pointer
+ */
+export function createFreezeTool(physics: PhysicsWorld): Tool {
+  return {
+    cursor: 'pointer',
+    down: (pointer) => {
+      const body = Query.point(getToolBodies(physics), pointer).at(-1)
+      if (body) setFrozen(body, !isFrozen(body))
+      return false
+    },
+    move: () => {},
+    up: () => {},
+    cancel: () => {},
+  }
+}
+
+/**
+ * A random shape (following the shape mix and material settings) at the pointer
+ */
+export function createSpawnTool(physics: PhysicsWorld): Tool {
+  return {
+    cursor: 'copy',
+    down: (pointer) => {
+      physics.addBody(createRandomShape(pointer.x, pointer.y))
+      return false
+    },
+    move: () => {},
+    up: () => {},
+    cancel: () => {},
+  }
+}
+
+type BuildGesture =
+  | { action: 'draw'; start: Matter.Vector; end: Matter.Vector }
+  | { action: 'move'; body: Matter.Body; offset: Matter.Vector }
+
+/**
+ * Draw obstacles (the kind picked in settings.obstacleKind), place pegs,
+ * and select or move existing obstacles
+ */
+export function createBuildTool(obstacles: ObstacleManager): Tool {
+  const gestures = new Map<number, BuildGesture>()
+
+  const isClick = (start: Matter.Vector, end: Matter.Vector) =>
+    Vector.magnitude(Vector.sub(end, start)) < CLICK_DISTANCE
+
+  return {
+    cursor: 'crosshair',
+    down: (pointer) => {
+      const point = { x: pointer.x, y: pointer.y }
+      const body = obstacles.getObstacleAt(point)
+      obstacles.select(body ?? null)
+
+      gestures.set(
+        pointer.id,
+        body
+          ? { action: 'move', body, offset: Vector.sub(body.position, point) }
+          : { action: 'draw', start: point, end: point }
+      )
+      return true
+    },
+    move: (pointer) => {
+      const gesture = gestures.get(pointer.id)
+      if (!gesture) return
+
+      if (gesture.action === 'move') {
+        obstacles.move(gesture.body, Vector.add(pointer, gesture.offset))
+      } else {
+        gesture.end = { x: pointer.x, y: pointer.y }
+      }
+    },
+    up: (pointer) => {
+      const gesture = gestures.get(pointer.id)
+      gestures.delete(pointer.id)
+      if (gesture?.action !== 'draw') return
+
+      const end = { x: pointer.x, y: pointer.y }
+      if (isClick(gesture.start, end)) {
+        obstacles.add({ kind: 'peg', ...gesture.start })
+      } else {
+        obstacles.add({ kind: getSettings().obstacleKind, start: gesture.start, end })
+      }
+    },
+    cancel: (pointerId) => {
+      gestures.delete(pointerId)
+    },
+    draw: (ctx) => {
+      ctx.save()
+      ctx.strokeStyle = HIGHLIGHT_COLOR
+      ctx.lineWidth = 2
+      ctx.setLineDash([6, 4])
+
+      // The selected obstacle
+      const selected = obstacles.getSelected()
+      if (selected) {
+        ctx.beginPath()
+        traceOutline(ctx, selected.vertices)
+        ctx.stroke()
+      }
+
+      // Previews of the obstacles being drawn
+      gestures.forEach((gesture) => {
+        if (gesture.action !== 'draw') return
+
+        ctx.beginPath()
+        if (isClick(gesture.start, gesture.end)) {
+          ctx.arc(gesture.start.x, gesture.start.y, PEG_RADIUS, 0, Math.PI * 2)
+        } else {
+          traceOutline(ctx, getObstacleVertices(getSettings().obstacleKind, gesture.start, gesture.end))
+        }
+        ctx.stroke()
+      })
+
+      ctx.restore()
+    },
+  }
+}
+
+function traceOutline(ctx: CanvasRenderingContext2D, vertices: Matter.Vector[], closed: boolean = true) {
+  ctx.moveTo(vertices[0].x, vertices[0].y)
+  vertices.slice(1).forEach((vertex) => ctx.lineTo(vertex.x, vertex.y))
+  if (closed) ctx.closePath()
+}
+
+/**
+ * Freehand drawing: a closed stroke becomes a dynamic body
+ */
+export function createDrawTool(physics: PhysicsWorld): Tool {
+  const strokes = new Map<number, Matter.Vector[]>()
+
+  return {
+    cursor: 'crosshair',
+    down: (pointer) => {
+      strokes.set(pointer.id, [{ x: pointer.x, y: pointer.y }])
+      return true
+    },
+    move: (pointer) => {
+      const stroke = strokes.get(pointer.id)
+      const last = stroke?.at(-1)
+      if (!stroke || !last) return
+
+      if (Vector.magnitude(Vector.sub(pointer, last)) >= STROKE_SPACING) {
+        stroke.push({ x: pointer.x, y: pointer.y })
+      }
+    },
+    up: (pointer) => {
+      const stroke = strokes.get(pointer.id)
+      strokes.delete(pointer.id)
+      if (!stroke) return
+
+      // Open strokes and tiny scribbles just disappear
+      const body = createFreehandBody([...stroke, { x: pointer.x, y: pointer.y }])
+      if (body) physics.addBody(body)
+    },
+    cancel: (pointerId) => {
+      strokes.delete(pointerId)
+    },
+    draw: (ctx) => {
+      strokes.forEach((stroke) => {
+        ctx.save()
+        ctx.strokeStyle = STYLE_CONFIG.strokeColor
+        ctx.lineWidth = 3
+        ctx.lineCap = 'round'
+        ctx.lineJoin = 'round'
+
+        ctx.beginPath()
+        traceOutline(ctx, stroke, false)
+        ctx.stroke()
+
+        // Close enough to become a shape: show the closing edge
+        if (isClosedStroke(stroke)) {
+          const first = stroke[0]
+          const last = stroke[stroke.length - 1]
+
+          ctx.strokeStyle = HIGHLIGHT_COLOR
+          ctx.setLineDash([6, 4])
+          ctx.beginPath()
+          ctx.moveTo(last.x, last.y)
+          ctx.lineTo(first.x, first.y)
+          ctx.stroke()
+        }
+
+        ctx.restore()
+      })
+    },
+  }
+}
+
+/**
+ * Routes canvas pointer events to the selected tool
+ *
+ * Like PhysicsWorld, the tools themselves never touch the DOM: only
+ * attach() / detach() do, so tools can be driven from Node with
+ * getTool(name).down({ id, x, y, time }).
+ */
+export class ToolController {
+  readonly drag: PointerDragController
+  private readonly tools: Record<ToolName, Tool>
+  private toolName: ToolName = 'grab'
+  private canvas: HTMLCanvasElement | null = null
+  // Pointers pressed on the canvas and handed to the active tool
+  private pressed = new Set<number>()
+  private hover: Matter.Vector | null = null
+
+  constructor(physics: PhysicsWorld, obstacles: ObstacleManager, dragOptions: PointerDragOptions = {}) {
+    this.drag = new PointerDragController(physics, dragOptions)
+    this.tools = {
+      grab: createGrabTool(this.drag),
+      flick: createFlickTool(physics, this.drag),
+      explode: createExplodeTool(physics),
+      erase: createEraseTool(physics),
+      freeze: createFreezeTool(physics),
+      spawn: createSpawnTool(physics),
+      build: createBuildTool(obstacles),
+      draw: createDrawTool(physics),
+    }
+  }
+
+  attach(canvas: HTMLCanvasElement) {
+    this.detach()
+    this.canvas = canvas
+    canvas.style.cursor = this.getTool().cursor
+
+    canvas.addEventListener('pointerdown', this.handlePointerDown)
+    canvas.addEventListener('pointermove', this.handlePointerMove)
+    canvas.addEventListener('pointerup', this.handlePointerUp)
+    canvas.addEventListener('pointercancel', this.handlePointerCancel)
+    canvas.addEventListener('pointerleave', this.handlePointerLeave)
+  }
+
+  detach() {
+    this.cancelAll()
+    if (!this.canvas) return
+
+    this.canvas.removeEventListener('pointerdown', this.handlePointerDown)
+    this.canvas.removeEventListener('pointermove', this.handlePointerMove)
+    this.canvas.removeEventListener('pointerup', this.handlePointerUp)
+    this.canvas.removeEventListener('pointercancel', this.handlePointerCancel)
+    this.canvas.removeEventListener('pointerleave', this.handlePointerLeave)
+    this.canvas.style.cursor = ''
+    this.canvas = null
+  }
+
+  getToolName(): ToolName {
+    return this.toolName
+  }
+
+  /**
+   * The active tool, or another one by name
+   */
+  getTool(name: ToolName = this.toolName): Tool {
+    return this.tools[name]
+  }
+
+  /**
+   * Switch tools. Pointers still held by the old tool are let go.
+   */
+  setTool(name: ToolName) {
+    if (name === this.toolName) return
+
+    this.cancelAll()
+    this.toolName = name
+    if (this.canvas) this.canvas.style.cursor = this.getTool().cursor
+  }
+
+  /**
+   * Draw the active tool's overlay (call after the world is drawn)
+   */
+  drawOverlay(ctx: CanvasRenderingContext2D, now: number) {
+    this.getTool().draw?.(ctx, this.hover, now)
+  }
+
+  private cancelAll() {
+    this.pressed.forEach((pointerId) => this.getTool().cancel(pointerId))
+    this.pressed.clear()
+  }
+
+  private toToolPointer(event: PointerEvent): ToolPointer {
+    return { id: event.pointerId, x: event.offsetX, y: event.offsetY, time: event.timeStamp }
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    // Left button, touch or pen only
+    if (event.button !== 0) return
+
+    const pointer = this.toToolPointer(event)
+    this.hover = { x: pointer.x, y: pointer.y }
+
+    if (this.getTool().down(pointer)) {
+      this.pressed.add(pointer.id)
+      // Keep getting this pointer's moves, even outside the canvas
+      this.canvas?.setPointerCapture(pointer.id)
+    }
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    const pointer = this.toToolPointer(event)
+    this.hover = { x: pointer.x, y: pointer.y }
+
+    if (this.pressed.has(pointer.id)) this.getTool().move(pointer)
+  }
+
+  private handlePointerUp = (event: PointerEvent) => {
+    if (!this.pressed.delete(event.pointerId)) return
+    this.getTool().up(this.toToolPointer(event))
+  }
+
+  // The browser took the pointer away (e.g. a system gesture)
+  private handlePointerCancel = (event: PointerEvent) => {
+    if (this.pressed.delete(event.pointerId)) this.getTool().cancel(event.pointerId)
+  }
+
+  private handlePointerLeave = () => {
+    this.hover = null
+  }
+}
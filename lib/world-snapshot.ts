@@ -0,0 +1,360 @@
+/**
+ * EXPLAINER: World Snapshots
+ *
+ * A snapshot is a plain JSON description of every dynamic body in the
+ * world - enough to rebuild the exact same pile later.
+ *
+ * What we store per body:
+ * - Shape: circle radius, or vertices (relative to the body centre, unrotated)
+ * - Transform: position + angle
+ * - Motion: velocity + angular velocity
+ * - Material: restitution, friction, frictionAir, density
+ *   (+ the preset name, if the body was made from one)
+ * - Look: render.fillStyle (+ the texture image, if it has one)
+ * - Frozen: set for shapes frozen by the freeze tool (lib/tools.ts)
+ *
+ * Walls are NOT stored - they are rebuilt by useMatter for the current
+ * screen size. Obstacles built with the build tool are static like the
+ * walls, so they are skipped too.
+ *
+ * Constraints are NOT stored either: a saved chain or ragdoll loads
+ * back as loose parts.
+ *
+ * The format is versioned. If the shape of the JSON ever changes,
+ * bump WORLD_SNAPSHOT_VERSION and teach parseWorldSnapshot to upgrade
+ * older files, so saved scenes and fixtures keep loading.
+ *
+ * CHALLENGE: Save a pile, open the JSON, change a fillStyle by hand
+ * and load it back!
+ */
+
+import Matter from 'matter-js'
+import { BODY_DEFAULTS } from './matter-config'
+import { getBodyMaterial, isMaterialName, type MaterialName } from './materials'
+import { getBodyOutline } from './outline'
+import { getBodyTexture, isBodyTexture, type BodyTexture } from './textures'
+import { isFrozen, setFrozen } from './tools'
+
+const { Bodies, Body, Vector, Vertices } = Matter
+
+/**
+ * Current snapshot format version
+ */
+export const WORLD_SNAPSHOT_VERSION = 1
+
+/**
+ * Physical material values (same keys as BODY_DEFAULTS)
+ */
+export interface SerializedMaterial {
+  restitution: number
+  friction: number
+  frictionAir: number
+  density: number
+}
+
+/**
+ * Body geometry, always relative to the body centre at angle 0
+ *
+ * - circle: a single radius
+ * - polygon: one convex vertex ring
+ * - compound: one vertex ring per part (concave shapes split into pieces)
+ *
+ * Bodies built from an outline (stars, SVG imports) also keep the
+ * original rings, so they are drawn without the cuts (lib/outline.ts).
+ */
+export type SerializedShape =
+  | { kind: 'circle'; radius: number }
+  | { kind: 'polygon'; vertices: Matter.Vector[]; outline?: Matter.Vector[][] }
+  | { kind: 'compound'; parts: Matter.Vector[][]; outline?: Matter.Vector[][] }
+
+export interface SerializedBody {
+  label: string
+  shape: SerializedShape
+  position: Matter.Vector
+  angle: number
+  velocity: Matter.Vector
+  angularVelocity: number
+  material: SerializedMaterial
+  /** Material preset (lib/materials.ts) - missing for custom materials */
+  preset?: MaterialName
+  fillStyle: string
+  /** Sprite or image pattern (lib/textures.ts) */
+  texture?: BodyTexture
+  /** Frozen in place by the freeze tool - missing for moving bodies */
+  frozen?: boolean
+}
+
+export interface WorldSnapshot {
+  version: typeof WORLD_SNAPSHOT_VERSION
+  createdAt: string
+  bodies: SerializedBody[]
+}
+
+/**
+ * Round to a few decimals - keeps files small and diffs readable
+ */
+function round(value: number, decimals: number = 4): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function roundVector(vector: Matter.Vector): Matter.Vector {
+  return { x: round(vector.x), y: round(vector.y) }
+}
+
+/**
+ * Convert world-space vertices to body-local, unrotated vertices
+ */
+function toLocalVertices(vertices: Matter.Vector[], body: Matter.Body): Matter.Vector[] {
+  return vertices.map((vertex) =>
+    roundVector(Vector.rotate(Vector.sub(vertex, body.position), -body.angle))
+  )
+}
+
+/**
+ * Describe a body's geometry
+ */
+function serializeShape(body: Matter.Body): SerializedShape {
+  if (body.circleRadius) {
+    return { kind: 'circle', radius: round(body.circleRadius) }
+  }
+
+  // Already local and unrotated
+  const outline = getBodyOutline(body)?.map((ring) => ring.map(roundVector))
+
+  // parts[0] is the body itself - real parts start at index 1
+  if (body.parts.length > 1) {
+    return {
+      kind: 'compound',
+      parts: body.parts.slice(1).map((part) => toLocalVertices(part.vertices, body)),
+      ...(outline && { outline }),
+    }
+  }
+
+  return { kind: 'polygon', vertices: toLocalVertices(body.vertices, body), ...(outline && { outline }) }
+}
+
+/**
+ * A body's own material values. Freezing (Body.setStatic) swaps them
+ * for static ones, and keeps the originals on body._original until the
+ * body is unfrozen - which Matter's types don't declare.
+ */
+function getMaterialValues(body: Matter.Body): SerializedMaterial {
+  const original = (body as Matter.Body & { _original?: Partial<SerializedMaterial> | null })._original
+  const source = isFrozen(body) && original ? { ...body, ...original } : body
+
+  return {
+    restitution: source.restitution,
+    friction: source.friction,
+    frictionAir: source.frictionAir,
+    density: source.density,
+  }
+}
+
+/**
+ * A body's own color - not the white of a collision flash. While a
+ * body flashes, physics-canvas keeps its real color on plugin.flashColor.
+ */
+export function getBodyFillStyle(body: Matter.Body): string {
+  const flashColor: unknown = body.plugin?.flashColor
+  return typeof flashColor === 'string' ? flashColor : (body.render.fillStyle ?? '#FFFFFF')
+}
+
+/**
+ * Serialize a single body
+ */
+export function serializeBody(body: Matter.Body): SerializedBody {
+  const preset = getBodyMaterial(body)
+  const texture = getBodyTexture(body)
+
+  return {
+    label: body.label,
+    shape: serializeShape(body),
+    position: roundVector(body.position),
+    angle: round(body.angle),
+    velocity: roundVector(Body.getVelocity(body)),
+    angularVelocity: round(Body.getAngularVelocity(body)),
+    material: getMaterialValues(body),
+    ...(preset && { preset }),
+    fillStyle: getBodyFillStyle(body),
+    ...(texture && { texture }),
+    ...(isFrozen(body) && { frozen: true }),
+  }
+}
+
+/**
+ * Capture every dynamic body in the world, plus the frozen ones
+ */
+export function serializeWorld(world: Matter.World): WorldSnapshot {
+  return {
+    version: WORLD_SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    bodies: world.bodies.filter((body) => !body.isStatic || isFrozen(body)).map(serializeBody),
+  }
+}
+
+/**
+ * Rebuild a Matter body from its serialized form
+ *
+ * The body is built around (0, 0) first, then moved and rotated into
+ * place, so compound parts keep their relative layout.
+ */
+export function deserializeBody(data: SerializedBody): Matter.Body {
+  const options: Matter.IBodyDefinition = {
+    label: data.label,
+    ...data.material,
+    render: {
+      fillStyle: data.fillStyle,
+      strokeStyle: '#000000',
+      lineWidth: 5,
+    },
+    plugin: {
+      ...(isMaterialName(data.preset) && { material: data.preset }),
+      ...(isBodyTexture(data.texture) && { texture: data.texture }),
+    },
+  }
+
+  let body: Matter.Body
+
+  switch (data.shape.kind) {
+    case 'circle':
+      body = Bodies.circle(0, 0, data.shape.radius, options)
+      break
+
+    case 'polygon':
+      body = Body.create({ ...options, position: { x: 0, y: 0 }, vertices: data.shape.vertices })
+      break
+
+    case 'compound': {
+      // Same recipe as Bodies.fromVertices: material on each part + the parent
+      const parts = data.shape.parts.map((vertices) =>
+        Body.create({ ...options, position: Vertices.centre(vertices), vertices })
+      )
+      body = Body.create({ ...options, parts })
+      break
+    }
+  }
+
+  if (data.shape.kind !== 'circle' && data.shape.outline) {
+    body.plugin = { ...body.plugin, outline: data.shape.outline }
+  }
+
+  Body.setPosition(body, data.position)
+  Body.setAngle(body, data.angle)
+  Body.setVelocity(body, data.velocity)
+  Body.setAngularVelocity(body, data.angularVelocity)
+
+  if (data.frozen === true) setFrozen(body, true)
+
+  return body
+}
+
+function isVector(value: unknown): value is Matter.Vector {
+  const vector = value as Partial<Matter.Vector> | null
+  return typeof vector === 'object' && vector !== null && Number.isFinite(vector.x) && Number.isFinite(vector.y)
+}
+
+function isRing(value: unknown): value is Matter.Vector[] {
+  return Array.isArray(value) && value.length >= 3 && value.every(isVector)
+}
+
+function isShape(value: unknown): value is SerializedShape {
+  if (typeof value !== 'object' || value === null) return false
+
+  const shape = value as Record<string, unknown>
+  const hasValidOutline = shape.outline === undefined || (Array.isArray(shape.outline) && shape.outline.every(isRing))
+
+  switch (shape.kind) {
+    case 'circle':
+      return typeof shape.radius === 'number' && shape.radius > 0
+    case 'polygon':
+      return isRing(shape.vertices) && hasValidOutline
+    case 'compound':
+      return Array.isArray(shape.parts) && shape.parts.length > 0 && shape.parts.every(isRing) && hasValidOutline
+    default:
+      return false
+  }
+}
+
+/**
+ * Check one entry of the "bodies" array. Only the material may be
+ * missing - older hand-written fixtures skip it, so it gets the defaults.
+ */
+function parseSerializedBody(value: unknown, index: number): SerializedBody {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`World snapshot body ${index} must be an object`)
+  }
+
+  const body = value as Partial<SerializedBody>
+
+  if (!isShape(body.shape)) {
+    const kind = (body.shape as { kind?: unknown } | undefined)?.kind
+    throw new Error(`World snapshot body ${index} has an unknown or broken shape (kind: ${String(kind)})`)
+  }
+
+  if (
+    typeof body.label !== 'string' ||
+    typeof body.fillStyle !== 'string' ||
+    !isVector(body.position) ||
+    !isVector(body.velocity) ||
+    !Number.isFinite(body.angle) ||
+    !Number.isFinite(body.angularVelocity)
+  ) {
+    throw new Error(
+      `World snapshot body ${index} needs a label, fillStyle, position, angle, velocity and angularVelocity`
+    )
+  }
+
+  return {
+    ...(body as SerializedBody),
+    material: { ...BODY_DEFAULTS, ...(typeof body.material === 'object' && body.material) },
+  }
+}
+
+/**
+ * Validate unknown JSON and return a typed snapshot
+ *
+ * Throws a readable error for files we can't load, instead of
+ * silently spawning garbage.
+ */
+export function parseWorldSnapshot(input: string | unknown): WorldSnapshot {
+  const data = typeof input === 'string' ? JSON.parse(input) : input
+
+  if (!data || typeof data !== 'object') {
+    throw new Error('World snapshot must be a JSON object')
+  }
+
+  const { version, bodies } = data as Partial<WorldSnapshot>
+
+  if (version !== WORLD_SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported world snapshot version: ${String(version)} (expected ${WORLD_SNAPSHOT_VERSION})`
+    )
+  }
+
+  if (!Array.isArray(bodies)) {
+    throw new Error('World snapshot is missing its "bodies" array')
+  }
+
+  return {
+    version,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : new Date(0).toISOString(),
+    bodies: bodies.map(parseSerializedBody),
+  }
+}
+
+/**
+ * Rebuild every body in a snapshot and hand it to addBody
+ *
+ * Pass useMatter's addBody so the bodies land in the live world.
+ * Every body is rebuilt before the first one is added, so if one
+ * throws, nothing lands in the world. Returns the created bodies.
+ */
+export function loadWorldSnapshot(
+  snapshot: WorldSnapshot,
+  addBody: (body: Matter.Body) => void
+): Matter.Body[] {
+  const bodies = snapshot.bodies.map(deserializeBody)
+  bodies.forEach(addBody)
+  return bodies
+}
@@ -0,0 +1,20 @@
+/**
+ * Types for poly-decomp (the package ships none)
+ *
+ * Only the functions we use. Polygons are arrays of [x, y] pairs and
+ * are changed in place.
+ */
+declare module 'poly-decomp' {
+  type Point = [number, number]
+  type Polygon = Point[]
+
+  const decomp: {
+    makeCCW(polygon: Polygon): boolean
+    removeCollinearPoints(polygon: Polygon, precision?: number): number
+    removeDuplicatePoints(polygon: Polygon, precision?: number): void
+    isSimple(polygon: Polygon): boolean
+    quickDecomp(polygon: Polygon): Polygon[]
+  }
+
+  export default decomp
+}